@@ -0,0 +1,506 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { AddressInfo } from "net";
+import * as yaml from "js-yaml";
+import { GitHub } from "@actions/github";
+import { Context } from "@actions/github/lib/context";
+import { run } from "../src/main";
+import { gotHttp } from "../src/http";
+import { Clock } from "../src/clock";
+import { EventMode } from "../src/types";
+
+export const OWNER = "octo";
+export const REPO = "site";
+export const PR_ID = 7;
+export const RUN_ID = 1234;
+// Latest successful run of the same workflow on the base branch
+export const BASE_RUN_ID = 1200;
+export const JOB_ID = 5678;
+export const JOB_NAME = "build";
+export const RUNNER_NAME = "GitHub Actions 3";
+// Id of the user that the action runs as
+export const BOT_ID = 41;
+
+/**
+ * Issue comment stored by the fake API
+ */
+export interface FakeComment {
+  id: number;
+  body: string;
+  user: { id: number; login: string; type: string };
+  html_url: string;
+}
+
+/**
+ * Check run stored by the fake API
+ */
+export interface FakeCheckRun {
+  id: number;
+  head_sha: string;
+  name: string;
+  html_url: string;
+  conclusion?: string;
+  output: { title: string; summary: string };
+}
+
+/**
+ * Step of a job, which only has a status and start time once it has started
+ */
+export interface FakeStep {
+  name: string;
+  status?: string;
+  conclusion: string | null;
+  started_at?: string;
+}
+
+/**
+ * Creates a step that has started
+ * @param name - Name of the step
+ * @param startedAt - When the step started, as an ISO 8601 timestamp
+ * @param status - Whether the step is "in_progress" or "completed" (successfully)
+ */
+export function startedStep(
+  name: string,
+  startedAt: string,
+  status = "completed",
+): FakeStep {
+  const conclusion = status === "completed" ? "success" : null;
+  return { name, status, conclusion, started_at: startedAt };
+}
+
+/**
+ * Deployment stored by the fake API, along with the states of its statuses (oldest
+ * first)
+ */
+export interface FakeDeployment {
+  id: number;
+  sha: string;
+  environment: string;
+  states: string[];
+}
+
+/**
+ * Request to a list endpoint of the fake API, where the url names the endpoint
+ */
+interface ListRequest {
+  url: string;
+  ref?: string;
+  run_id?: number;
+  environment?: string;
+  sha?: string;
+}
+
+/**
+ * In-memory stand-in for the parts of the GitHub API that the action uses
+ */
+export interface FakeGitHub {
+  client: GitHub;
+  comments: FakeComment[];
+  checkRuns: FakeCheckRun[];
+  deployments: FakeDeployment[];
+  // Commits of the PR, oldest first
+  commits: string[];
+  // Head commit of the PR, and its merge commit into the base branch
+  headSha: string;
+  mergeSha: string;
+  // Repository that the PR's head branch is in
+  headRepo: string;
+  // Head commit of the PR's branch if it has moved on since the run started
+  branchSha: string | null;
+  // User that the action's token writes comments as, and whether it can look itself up
+  // (which tokens that aren't users, like the default GITHUB_TOKEN, can't)
+  author: FakeComment["user"];
+  userToken: boolean;
+  // Slug of the GitHub App that the token belongs to, if it can look its app up
+  appSlug: string | null;
+  // Steps of the current job, which the cleanup step gets its conclusion from, and of
+  // the same job in the latest build of the base branch
+  steps: FakeStep[];
+  baseSteps: FakeStep[];
+}
+
+/**
+ * Creates an in-memory fake of the issues, pulls, actions and users endpoints
+ * @param headSha - Head commit of the PR
+ */
+export function fakeGitHub(headSha: string): FakeGitHub {
+  const fake: FakeGitHub = {
+    client: (null as unknown) as GitHub,
+    comments: [],
+    checkRuns: [],
+    deployments: [],
+    commits: [headSha],
+    headSha,
+    mergeSha: "e".repeat(40),
+    headRepo: `${OWNER}/${REPO}`,
+    branchSha: null,
+    author: { id: BOT_ID, login: "deploy-bot", type: "User" },
+    userToken: true,
+    appSlug: null,
+    steps: [],
+    baseSteps: [],
+  };
+  let nextId = 100;
+  const job = {
+    id: JOB_ID,
+    name: JOB_NAME,
+    html_url: `https://github.com/${OWNER}/${REPO}/runs/${JOB_ID}`,
+    status: "in_progress",
+    conclusion: null,
+    started_at: "2020-06-01T12:00:00Z",
+    completed_at: null,
+    runner_name: RUNNER_NAME,
+  };
+  const baseJob = {
+    ...job,
+    id: JOB_ID - 1,
+    status: "completed",
+    conclusion: "success",
+    started_at: "2020-05-31T09:00:00Z",
+    completed_at: "2020-05-31T09:25:00Z",
+  };
+
+  // Gets every item behind a list endpoint
+  const list = (request: ListRequest): object[] => {
+    switch (request.url) {
+      case "comments":
+        return fake.comments.map((comment) => ({ ...comment }));
+      case "commits":
+        return fake.commits.map((sha) => ({ sha }));
+      case "deployments":
+        return fake.deployments
+          .filter(
+            ({ sha, environment }) =>
+              environment === request.environment &&
+              (request.sha == null || sha === request.sha),
+          )
+          .map(({ id, sha, environment }) => ({ id, sha, environment }))
+          .reverse();
+      case "check-runs":
+        return fake.checkRuns
+          .filter(({ head_sha }) => head_sha === request.ref)
+          .map((checkRun) => ({ ...checkRun }));
+      case "jobs":
+        return request.run_id === BASE_RUN_ID
+          ? [{ ...baseJob, steps: fake.baseSteps }]
+          : [{ ...job, steps: fake.steps }];
+      case "workflow-runs":
+        return [
+          {
+            id: BASE_RUN_ID,
+            status: "completed",
+            conclusion: "success",
+            created_at: "2020-05-31T08:00:00Z",
+            updated_at: "2020-05-31T10:00:00Z",
+          },
+        ];
+    }
+    throw new Error(`Unexpected list request to ${request.url}`);
+  };
+  // List endpoints can be called directly (returning every item as a single page, under
+  // the namespace if the response has one) or have their options passed to paginate
+  const listEndpoint = (url: string, namespace?: string): object =>
+    Object.assign(
+      async (params: object) => {
+        const items = list({ ...params, url });
+        return {
+          data:
+            namespace != null
+              ? { total_count: items.length, [namespace]: items }
+              : items,
+        };
+      },
+      { endpoint: { merge: (params: object) => ({ ...params, url }) } },
+    );
+
+  const client = {
+    paginate: async (
+      request: ListRequest,
+      mapFn?: (response: { data: object[] }, done: () => void) => object[],
+    ) => {
+      const items = list(request);
+      return mapFn != null ? mapFn({ data: items }, () => undefined) : items;
+    },
+    users: {
+      getAuthenticated: async () => {
+        if (!fake.userToken)
+          throw Object.assign(new Error("Resource not accessible"), {
+            status: 403,
+          });
+        return { data: { id: fake.author.id, login: fake.author.login } };
+      },
+    },
+    apps: {
+      getAuthenticated: async () => {
+        if (fake.appSlug == null)
+          throw Object.assign(new Error("A JSON web token is required"), {
+            status: 401,
+          });
+        return { data: { slug: fake.appSlug } };
+      },
+    },
+    pulls: {
+      get: async ({ pull_number }: { pull_number: number }) => ({
+        data: {
+          number: pull_number,
+          head: {
+            sha: fake.branchSha ?? fake.headSha,
+            ref: "feature/new-page",
+            repo: { full_name: fake.headRepo },
+          },
+          base: { ref: "main" },
+          labels: [],
+          merged: false,
+          merge_commit_sha: fake.mergeSha,
+        },
+      }),
+      listCommits: listEndpoint("commits"),
+    },
+    repos: {
+      listDeployments: listEndpoint("deployments"),
+      createDeployment: async ({
+        ref,
+        environment,
+      }: {
+        ref: string;
+        environment: string;
+      }) => {
+        const deployment = { id: nextId++, sha: ref, environment, states: [] };
+        fake.deployments.push(deployment);
+        return { data: { id: deployment.id } };
+      },
+      createDeploymentStatus: async ({
+        deployment_id,
+        state,
+      }: {
+        deployment_id: number;
+        state: string;
+      }) => {
+        const deployment = fake.deployments.find(
+          ({ id }) => id === deployment_id,
+        );
+        if (deployment == null)
+          throw new Error(`No deployment ${deployment_id}`);
+        deployment.states.push(state);
+        return { data: {} };
+      },
+    },
+    checks: {
+      listForRef: listEndpoint("check-runs", "check_runs"),
+      create: async ({
+        head_sha,
+        name,
+        conclusion,
+        output,
+      }: Pick<FakeCheckRun, "head_sha" | "name" | "conclusion" | "output">) => {
+        const id = nextId++;
+        const checkRun: FakeCheckRun = {
+          id,
+          head_sha,
+          name,
+          html_url: `https://github.com/${OWNER}/${REPO}/runs/${id}`,
+          conclusion,
+          output,
+        };
+        fake.checkRuns.push(checkRun);
+        return { data: { ...checkRun } };
+      },
+      update: async ({
+        check_run_id,
+        conclusion,
+        output,
+      }: {
+        check_run_id: number;
+        conclusion?: string;
+        output: FakeCheckRun["output"];
+      }) => {
+        const checkRun = fake.checkRuns.find(({ id }) => id === check_run_id);
+        if (checkRun == null) throw new Error(`No check run ${check_run_id}`);
+        checkRun.conclusion = conclusion;
+        checkRun.output = output;
+        return { data: { ...checkRun } };
+      },
+    },
+    issues: {
+      listComments: listEndpoint("comments"),
+      createComment: async ({ body }: { body: string }) => {
+        const comment: FakeComment = {
+          id: nextId++,
+          body,
+          user: { ...fake.author },
+          html_url: `https://github.com/${OWNER}/${REPO}/pull/${PR_ID}#issuecomment-${nextId}`,
+        };
+        fake.comments.push(comment);
+        return { data: { ...comment } };
+      },
+      updateComment: async ({
+        comment_id,
+        body,
+      }: {
+        comment_id: number;
+        body: string;
+      }) => {
+        const comment = fake.comments.find(({ id }) => id === comment_id);
+        if (comment == null) throw new Error(`No comment ${comment_id}`);
+        comment.body = body;
+        return { data: { ...comment } };
+      },
+      deleteComment: async ({ comment_id }: { comment_id: number }) => {
+        fake.comments = fake.comments.filter(({ id }) => id !== comment_id);
+        return { data: {} };
+      },
+    },
+    actions: {
+      listJobsForWorkflowRun: listEndpoint("jobs", "jobs"),
+      getWorkflowJob: async () => ({ data: { ...job, steps: fake.steps } }),
+      getWorkflowRun: async ({ run_id }: { run_id: number }) => ({
+        data: {
+          id: run_id,
+          workflow_id: 1,
+          status: "in_progress",
+          conclusion: null,
+          created_at: job.started_at,
+        },
+      }),
+      listWorkflowRuns: listEndpoint("workflow-runs", "workflow_runs"),
+    },
+  };
+  fake.client = (client as unknown) as GitHub;
+  return fake;
+}
+
+/**
+ * Local HTTP server standing in for the staging server, which responds to the paths
+ * that have been deployed and with a 404 to any others. Also stands in for webhooks,
+ * recording the body of each POST request
+ */
+export interface StagingServer {
+  url: string;
+  posted: { path: string; body: unknown }[];
+  deploy(urlPath: string, body?: string): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the staging server stand-in on a random local port
+ */
+export async function startStagingServer(): Promise<StagingServer> {
+  const deployed = new Map<string, string>();
+  const posted: StagingServer["posted"] = [];
+  const server = http.createServer((request, response) => {
+    if (request.method === "POST") {
+      let received = "";
+      request.on("data", (chunk) => (received += chunk));
+      request.on("end", () => {
+        posted.push({ path: request.url ?? "", body: JSON.parse(received) });
+        response.end();
+      });
+      return;
+    }
+
+    const body = deployed.get(request.url ?? "");
+    response.statusCode = body != null ? 200 : 404;
+    response.end(body ?? "Not found");
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    posted,
+    deploy(urlPath: string, body = "<html></html>"): void {
+      deployed.set(urlPath, body);
+    },
+    close: async () => {
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+/**
+ * Clock that starts at a fixed time and advances instantly when sleeping
+ */
+export function fakeClock(start = Date.parse("2020-06-01T12:30:00Z")): Clock {
+  let now = start;
+  return {
+    now: (): number => now,
+    sleep: async (ms: number): Promise<void> => {
+      now += ms;
+    },
+  };
+}
+
+// Default values of the action inputs, as declared in action.yml
+const actionYml = yaml.safeLoad(
+  fs.readFileSync(path.join(__dirname, "..", "action.yml"), "utf8"),
+) as { inputs: Record<string, { default?: string }> };
+const DEFAULT_INPUTS: Record<string, string> = {};
+for (const [name, { default: value }] of Object.entries(actionYml.inputs)) {
+  DEFAULT_INPUTS[name] = value ?? "";
+}
+
+/**
+ * Environment that a test run of the action happens in
+ */
+export interface TestEnvironment {
+  github: FakeGitHub;
+  staging: StagingServer;
+  clock: Clock;
+}
+
+/**
+ * Runs the action for a `pull_request` event on the fake PR, returning the outputs it
+ * set
+ * @param mode - Action mode
+ * @param environment - Test environment
+ * @param inputs - Action inputs, on top of the defaults from action.yml
+ */
+export async function runAction(
+  mode: EventMode,
+  environment: TestEnvironment,
+  inputs: Record<string, string> = {},
+): Promise<Record<string, string>> {
+  const { github, staging, clock } = environment;
+  const allInputs: Record<string, string> = {
+    ...DEFAULT_INPUTS,
+    GITHUB_TOKEN: "token",
+    "base-staging-url": staging.url,
+    "build-time": new Date(clock.now()).toISOString(),
+    "job-name": JOB_NAME,
+    "compare-base-branch": "false",
+    ...inputs,
+  };
+  const context = {
+    eventName: "pull_request",
+    payload: { pull_request: { number: PR_ID, head: { sha: github.headSha } } },
+    sha: github.mergeSha,
+    ref: `refs/pull/${PR_ID}/merge`,
+    repo: { owner: OWNER, repo: REPO },
+    issue: { owner: OWNER, repo: REPO, number: PR_ID },
+  };
+
+  const outputs: Record<string, string> = {};
+  const stdout = jest
+    .spyOn(process.stdout, "write")
+    .mockImplementation((chunk: string | Uint8Array): boolean => {
+      const matchObject = /^::set-output name=([^:]+)::(.*)$/m.exec(
+        chunk.toString(),
+      );
+      if (matchObject != null) outputs[matchObject[1]] = matchObject[2];
+      return true;
+    });
+  try {
+    await run(mode, {
+      inputs: { get: (name: string) => allInputs[name] ?? "" },
+      env: { GITHUB_RUN_ID: RUN_ID.toString(), RUNNER_NAME },
+      context: (context as unknown) as Context,
+      createClient: () => github.client,
+      clock,
+      http: gotHttp,
+    });
+  } finally {
+    stdout.mockRestore();
+  }
+  return outputs;
+}
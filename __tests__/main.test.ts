@@ -0,0 +1,542 @@
+import {
+  fakeClock,
+  fakeGitHub,
+  runAction,
+  startedStep,
+  startStagingServer,
+  FakeComment,
+  StagingServer,
+  TestEnvironment,
+  PR_ID,
+} from "./fakes";
+import {
+  getCommentState,
+  isStagingComment,
+  BuildState,
+  BuildStatus,
+  DEFAULT_TARGET,
+} from "../src/templates";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+const SHORT_SHA = SHA.slice(0, 7);
+const NEXT_SHA = "89abcdef0123456789abcdef0123456789abcdef";
+
+let staging: StagingServer;
+let environment: TestEnvironment;
+
+beforeEach(async () => {
+  staging = await startStagingServer();
+  environment = { github: fakeGitHub(SHA), staging, clock: fakeClock() };
+});
+
+afterEach(async () => {
+  await staging.close();
+});
+
+/**
+ * Gets the only comment the action wrote
+ */
+function onlyComment(): FakeComment {
+  const { comments } = environment.github;
+  expect(comments).toHaveLength(1);
+  return comments[0];
+}
+
+/**
+ * Gets the build state of the default target from the only comment the action wrote
+ */
+function buildState(): BuildState {
+  return getCommentState(onlyComment().body).targets[DEFAULT_TARGET];
+}
+
+/**
+ * Deploys the previews of the given commit to the staging server stand-in
+ * @param shortSha - Short SHA of the commit
+ */
+function deploy(shortSha: string): void {
+  staging.deploy(`/commit/${shortSha}/`);
+  staging.deploy(`/pr/${PR_ID}/`);
+}
+
+describe("pre", () => {
+  it("creates a comment with an in-progress entry", async () => {
+    const outputs = await runAction("pre", environment);
+
+    const state = buildState();
+    expect(state.latest.status).toBe(BuildStatus.InProgress);
+    expect(state.latest.commitSha).toBe(SHORT_SHA);
+    expect(state.previous).toEqual([]);
+    expect(outputs.status).toBe("in-progress");
+    expect(outputs.deployUrl).toBe(`${staging.url}/pr/${PR_ID}/`);
+    expect(outputs.commentId).toBe(onlyComment().id.toString());
+  });
+});
+
+describe("pre → post", () => {
+  it("marks the build as successful once the preview is reachable", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    const outputs = await runAction("post", environment, {
+      "build-duration": "95",
+    });
+
+    const state = buildState();
+    expect(state.latest.status).toBe(BuildStatus.Success);
+    expect(state.latest.deployUrl).toBe(`${staging.url}/commit/${SHORT_SHA}/`);
+    expect(state.latest.buildDuration).toBe("1m 35s");
+    expect(state.previous).toEqual([]);
+    expect(outputs.status).toBe("success");
+  });
+
+  it("moves the previous commit into the history", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    await runAction("post", environment);
+
+    environment.github.headSha = NEXT_SHA;
+    await runAction("pre", environment);
+
+    const state = buildState();
+    expect(state.latest.commitSha).toBe(NEXT_SHA.slice(0, 7));
+    expect(state.latest.status).toBe(BuildStatus.InProgress);
+    expect(state.previous.map(({ commitSha }) => commitSha)).toEqual([
+      SHORT_SHA,
+    ]);
+    expect(state.previous[0].status).toBe(BuildStatus.Success);
+  });
+});
+
+describe("retention", () => {
+  it("keeps the outdated build being published without any history", async () => {
+    environment.github.headSha = NEXT_SHA;
+    await runAction("pre", environment, { "max-history": "0" });
+    environment.github.headSha = SHA;
+    environment.github.branchSha = NEXT_SHA;
+    await runAction("pre", environment, { "max-history": "0" });
+
+    const state = buildState();
+    expect(state.latest.commitSha).toBe(NEXT_SHA.slice(0, 7));
+    expect(state.previous.map(({ commitSha }) => commitSha)).toEqual([
+      SHORT_SHA,
+    ]);
+    expect(state.previous[0].outdated).toBe(true);
+  });
+});
+
+describe("pre → failure", () => {
+  it("marks the build as failed without a deploy link", async () => {
+    await runAction("pre", environment);
+    const outputs = await runAction("failure", environment);
+
+    const state = buildState();
+    expect(state.latest.status).toBe(BuildStatus.Failure);
+    expect(state.latest.deployUrl).toBeNull();
+    expect(outputs.status).toBe("failure");
+  });
+});
+
+describe("verification failure", () => {
+  it("marks the build as unreachable when the preview never responds", async () => {
+    await runAction("pre", environment);
+    const outputs = await runAction("post", environment, {
+      "verify-timeout": "30",
+    });
+
+    const state = buildState();
+    expect(state.latest.status).toBe(BuildStatus.Unreachable);
+    expect(state.latest.error).toContain("HTTP 404");
+    expect(outputs.status).toBe("unreachable");
+  });
+
+  it("only reports the deployment once verification is over", async () => {
+    await runAction("pre", environment, { deployments: "true" });
+    await runAction("post", environment, {
+      deployments: "true",
+      "verify-timeout": "30",
+    });
+
+    expect(environment.github.deployments.map(({ states }) => states)).toEqual([
+      ["in_progress", "error"],
+    ]);
+  });
+
+  it("checks the expected content of the preview", async () => {
+    staging.deploy(`/commit/${SHORT_SHA}/`, "built from another commit");
+    staging.deploy(`/pr/${PR_ID}/`, "built from another commit");
+    await runAction("pre", environment);
+    await runAction("post", environment, {
+      "verify-timeout": "30",
+      "verify-content": "{shortSha}",
+    });
+
+    const state = buildState();
+    expect(state.latest.status).toBe(BuildStatus.Unreachable);
+    expect(state.latest.error).toContain(`expected content "${SHORT_SHA}"`);
+  });
+});
+
+describe("tags", () => {
+  it("keeps a separate comment for each tag", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, { tag: "docs" });
+    await runAction("pre", environment, { tag: "app" });
+    await runAction("post", environment, { tag: "app" });
+
+    const { comments } = environment.github;
+    expect(comments).toHaveLength(2);
+    const [docs] = comments.filter(({ body }) =>
+      isStagingComment(body, "docs"),
+    );
+    const [app] = comments.filter(({ body }) => isStagingComment(body, "app"));
+    expect(
+      getCommentState(docs.body).targets[DEFAULT_TARGET].latest.status,
+    ).toBe(BuildStatus.InProgress);
+    expect(
+      getCommentState(app.body).targets[DEFAULT_TARGET].latest.status,
+    ).toBe(BuildStatus.Success);
+  });
+
+  it("doesn't match the untagged comment", async () => {
+    await runAction("pre", environment);
+    await runAction("pre", environment, { tag: "docs" });
+
+    expect(environment.github.comments).toHaveLength(2);
+  });
+});
+
+describe("cleanup", () => {
+  it("records why the build never reached the post step", async () => {
+    await runAction("pre", environment);
+    environment.github.steps = [
+      { name: "Build", conclusion: "success" },
+      { name: "Deploy", conclusion: "cancelled" },
+    ];
+    await runAction("cleanup", environment);
+
+    expect(buildState().latest.status).toBe(BuildStatus.Cancelled);
+  });
+
+  it("records a failure when a step failed", async () => {
+    await runAction("pre", environment);
+    environment.github.steps = [{ name: "Build", conclusion: "failure" }];
+    await runAction("cleanup", environment);
+
+    expect(buildState().latest.status).toBe(BuildStatus.Failure);
+  });
+
+  it("records a cancellation when no step failed", async () => {
+    await runAction("pre", environment);
+    environment.github.steps = [{ name: "Build", conclusion: "success" }];
+    await runAction("cleanup", environment);
+
+    expect(buildState().latest.status).toBe(BuildStatus.Cancelled);
+  });
+
+  it("finds the job from its runner without a job name", async () => {
+    await runAction("pre", environment, { "job-name": "" });
+    environment.github.steps = [{ name: "Build", conclusion: "failure" }];
+    await runAction("cleanup", environment, { "job-name": "" });
+
+    expect(buildState().latest.status).toBe(BuildStatus.Failure);
+  });
+
+  it("leaves the build in progress when the job can't be found", async () => {
+    await runAction("pre", environment, { "job-name": "deploy" });
+    environment.github.steps = [{ name: "Build", conclusion: "failure" }];
+    await runAction("cleanup", environment, { "job-name": "deploy" });
+
+    expect(buildState().latest.status).toBe(BuildStatus.InProgress);
+  });
+
+  it("leaves builds that were already recorded alone", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    await runAction("post", environment);
+    const { body } = onlyComment();
+    environment.github.steps = [{ name: "Build", conclusion: "failure" }];
+    await runAction("cleanup", environment);
+
+    expect(onlyComment().body).toBe(body);
+    expect(buildState().latest.status).toBe(BuildStatus.Success);
+  });
+});
+
+describe("check reporter", () => {
+  it("carries the history over from the newest commit with a check run", async () => {
+    // More commits than fit on a single page, listed oldest first
+    environment.github.commits = [
+      ...Array.from({ length: 150 }, (_, i) =>
+        i.toString(16).padStart(40, "0"),
+      ),
+      SHA,
+    ];
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, { reporter: "check" });
+    await runAction("post", environment, { reporter: "check" });
+
+    environment.github.commits.push(NEXT_SHA);
+    environment.github.headSha = NEXT_SHA;
+    await runAction("pre", environment, { reporter: "check" });
+
+    const { checkRuns } = environment.github;
+    expect(checkRuns.map((checkRun) => checkRun.head_sha)).toEqual([
+      SHA,
+      NEXT_SHA,
+    ]);
+    const state = getCommentState(checkRuns[1].output.summary).targets[
+      DEFAULT_TARGET
+    ];
+    expect(state.latest.status).toBe(BuildStatus.InProgress);
+    expect(state.previous.map(({ commitSha }) => commitSha)).toEqual([
+      SHORT_SHA,
+    ]);
+  });
+
+  it("reports the removed preview as neutral once the PR is closed", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, { reporter: "check" });
+    await runAction("post", environment, { reporter: "check" });
+    await runAction("closed", environment, { reporter: "check" });
+
+    const [checkRun] = environment.github.checkRuns;
+    expect(checkRun.output.title).toBe("Deploy preview removed");
+    expect(checkRun.conclusion).toBe("neutral");
+  });
+});
+
+describe("check reporter lookups", () => {
+  it("keeps the check run on the head commit when building the merge commit", async () => {
+    const inputs = { reporter: "check", "commit-source": "merge" };
+    const { github } = environment;
+    github.mergeSha = "a".repeat(40);
+    await runAction("pre", environment, inputs);
+    await runAction("failure", environment, inputs);
+
+    github.commits.push(NEXT_SHA);
+    github.headSha = NEXT_SHA;
+    github.mergeSha = "b".repeat(40);
+    await runAction("pre", environment, inputs);
+
+    const { checkRuns } = github;
+    expect(checkRuns.map((checkRun) => checkRun.head_sha)).toEqual([
+      SHA,
+      NEXT_SHA,
+    ]);
+    const state = getCommentState(checkRuns[1].output.summary).targets[
+      DEFAULT_TARGET
+    ];
+    expect(state.latest.commitSha).toBe("bbbbbbb");
+    expect(state.previous.map(({ commitSha }) => commitSha)).toEqual([
+      "aaaaaaa",
+    ]);
+  });
+
+  it("only searches the last few commits for an earlier check run", async () => {
+    environment.github.commits = Array.from({ length: 150 }, (_, i) =>
+      i.toString(16).padStart(40, "0"),
+    );
+    const paginate = jest.spyOn(environment.github.client, "paginate");
+    await runAction("pre", environment, { reporter: "check" });
+
+    const lookups = paginate.mock.calls.filter(
+      ([request]) => (request as { url: string }).url === "check-runs",
+    );
+    // The head commit and the 10 commits before it, then the head commit once more to
+    // update it and once more to read it back
+    expect(lookups).toHaveLength(13);
+    expect(environment.github.checkRuns).toHaveLength(1);
+  });
+});
+
+describe("trends", () => {
+  beforeEach(() => {
+    environment.github.steps = [
+      startedStep("Build", "2020-06-01T12:00:00Z"),
+      startedStep("Report", "2020-06-01T12:30:00Z", "in_progress"),
+    ];
+    environment.github.baseSteps = [
+      startedStep("Build", "2020-05-31T09:00:00Z"),
+      startedStep("Report", "2020-05-31T09:20:00Z"),
+    ];
+  });
+
+  it("compares the time taken to reach the same step on the base branch", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, { "job-name": "" });
+    await runAction("post", environment, {
+      "build-duration": "95",
+      "compare-base-branch": "true",
+      "job-name": "",
+    });
+
+    // The job reached this step after 30 minutes, while the base branch's job reached
+    // it after 20 minutes (and finished 5 minutes later)
+    expect(buildState().latest.trends).toEqual([
+      { against: "`main`", durationDelta: 600, durationPercent: 50 },
+    ]);
+  });
+
+  it("skips the base branch if its job didn't run the same step", async () => {
+    environment.github.baseSteps = [
+      startedStep("Build", "2020-05-31T09:00:00Z"),
+    ];
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    await runAction("post", environment, {
+      "build-duration": "95",
+      "compare-base-branch": "true",
+    });
+
+    expect(buildState().latest.trends).toBeUndefined();
+  });
+
+  it("publishes the build without a size if the manifest is missing", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    const outputs = await runAction("post", environment, {
+      "size-manifest": "missing-manifest.json",
+    });
+
+    expect(outputs.status).toBe("success");
+    expect(buildState().latest.status).toBe(BuildStatus.Success);
+    expect(buildState().latest.size).toBeUndefined();
+  });
+});
+
+describe("notifications", () => {
+  it("notifies the webhook about the first successful preview once", async () => {
+    const inputs = {
+      "notify-webhook": `${staging.url}/hook`,
+      "notify-on": "first-success",
+    };
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, inputs);
+    await runAction("post", environment, inputs);
+    environment.github.headSha = NEXT_SHA;
+    deploy(NEXT_SHA.slice(0, 7));
+    await runAction("pre", environment, inputs);
+    await runAction("post", environment, inputs);
+
+    expect(staging.posted).toHaveLength(1);
+    expect(staging.posted[0]).toEqual({
+      path: "/hook",
+      body: expect.objectContaining({
+        event: "first-success",
+        prId: PR_ID,
+        status: "success",
+        stagingUrl: `${staging.url}/pr/${PR_ID}/`,
+      }),
+    });
+  });
+});
+
+describe("closed", () => {
+  it("deactivates the existing deployments of the PR", async () => {
+    deploy(SHORT_SHA);
+    await runAction("pre", environment, { deployments: "true" });
+    await runAction("post", environment, { deployments: "true" });
+    await runAction("closed", environment, { deployments: "true" });
+
+    expect(environment.github.deployments).toEqual([
+      {
+        id: expect.any(Number),
+        sha: SHA,
+        environment: `pr-${PR_ID}`,
+        states: ["in_progress", "success", "inactive"],
+      },
+    ]);
+    expect(buildState().removed).toBe("closed");
+  });
+
+  it("stays removed when a result is attached afterwards", async () => {
+    await runAction("pre", environment);
+    await runAction("closed", environment);
+    await runAction("annotate", environment, {
+      "result-name": "Lighthouse",
+      "result-value": "98",
+    });
+
+    const state = buildState();
+    expect(state.removed).toBe("closed");
+    expect(state.latest.results).toEqual([
+      { name: "Lighthouse", value: "98", link: null },
+    ]);
+  });
+
+  it("doesn't create a deployment if there aren't any", async () => {
+    await runAction("pre", environment);
+    await runAction("closed", environment, { deployments: "true" });
+
+    expect(environment.github.deployments).toEqual([]);
+  });
+});
+
+describe("untrusted PRs", () => {
+  beforeEach(() => {
+    environment.github.headRepo = "fork/site";
+  });
+
+  it("fails the step after noting that the preview needs approval", async () => {
+    await expect(runAction("pre", environment)).rejects.toThrow(
+      "Deploy preview needs approval: PR is from the external repository fork/site",
+    );
+
+    expect(buildState().latest.status).toBe(BuildStatus.AwaitingApproval);
+  });
+
+  it("carries on without a preview if configured to", async () => {
+    const outputs = await runAction("pre", environment, {
+      "continue-untrusted": "true",
+    });
+
+    expect(outputs.trusted).toBe("false");
+    expect(buildState().latest.status).toBe(BuildStatus.AwaitingApproval);
+  });
+});
+
+describe("inputs", () => {
+  it("rejects numeric inputs with units", async () => {
+    await expect(
+      runAction("pre", environment, { "stale-timeout": "6h" }),
+    ).rejects.toThrow('Invalid value for input "stale-timeout": 6h');
+    expect(environment.github.comments).toEqual([]);
+  });
+});
+
+describe("comment ownership", () => {
+  it("only matches github-actions[bot] when the token can't look itself up", async () => {
+    const { github } = environment;
+    github.userToken = false;
+    github.author = { id: 99, login: "other-app[bot]", type: "Bot" };
+    await runAction("pre", environment, {
+      "comment-authors": "other-app[bot]",
+    });
+    github.author = { id: 41, login: "github-actions[bot]", type: "Bot" };
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    await runAction("post", environment);
+
+    const [other, own] = github.comments;
+    expect(github.comments).toHaveLength(2);
+    expect(own.user.login).toBe("github-actions[bot]");
+    expect(
+      getCommentState(own.body).targets[DEFAULT_TARGET].latest.status,
+    ).toBe(BuildStatus.Success);
+    expect(
+      getCommentState(other.body).targets[DEFAULT_TARGET].latest.status,
+    ).toBe(BuildStatus.InProgress);
+  });
+
+  it("matches the bot user of the token's GitHub App", async () => {
+    const { github } = environment;
+    github.userToken = false;
+    github.appSlug = "preview-app";
+    github.author = { id: 77, login: "preview-app[bot]", type: "Bot" };
+    deploy(SHORT_SHA);
+    await runAction("pre", environment);
+    await runAction("post", environment);
+
+    expect(onlyComment().user.login).toBe("preview-app[bot]");
+    expect(buildState().latest.status).toBe(BuildStatus.Success);
+  });
+});
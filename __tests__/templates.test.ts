@@ -0,0 +1,113 @@
+import {
+  details,
+  getCommentState,
+  isStagingComment,
+  renderComment,
+  salvageBuildState,
+  BuildEmoji,
+  BuildEntry,
+  BuildState,
+  BuildStatus,
+  DEFAULT_TARGET,
+} from "../src/templates";
+
+const RUN_LINK = "https://github.com/octo/site/runs/5678";
+
+/**
+ * Builds an entry with only the fields that are rendered into the Markdown table
+ * @param commitSha - Short SHA of the commit
+ * @param status - Build status
+ * @param emoji - Build status icon
+ */
+function tableEntry(
+  commitSha: string,
+  status: BuildStatus,
+  emoji: BuildEmoji,
+): BuildEntry {
+  return {
+    emoji,
+    status,
+    deployUrl:
+      status === BuildStatus.Success
+        ? `https://staging.example.com/commit/${commitSha}/`
+        : null,
+    commitSha,
+    commitLink: `https://github.com/octo/site/commit/${commitSha}`,
+    buildTime: "Jun 1, 2020 12:30 PM UTC",
+    buildDuration: status === BuildStatus.Success ? "1m 35s" : null,
+    runLink: RUN_LINK,
+  };
+}
+
+const STATE: BuildState = {
+  latest: tableEntry("89abcde", BuildStatus.Success, BuildEmoji.Success),
+  previous: [
+    {
+      ...tableEntry("0123456", BuildStatus.Failure, BuildEmoji.Failure),
+      outdated: true,
+    },
+    {
+      ...tableEntry("fedcba9", BuildStatus.Success, BuildEmoji.Success),
+      expired: true,
+    },
+  ],
+};
+
+describe("getCommentState", () => {
+  it("reads back the embedded state of every target", () => {
+    const docs: BuildState = {
+      latest: {
+        ...tableEntry("89abcde", BuildStatus.Failure, BuildEmoji.Failure),
+        error: "Build failed: <!-- not the end -->",
+        builtAt: "2020-06-01T12:30:00.000Z",
+        durationSeconds: 95,
+      },
+      previous: [],
+      url: "https://staging.example.com/docs/",
+    };
+    const commentState = {
+      targets: { [DEFAULT_TARGET]: STATE, docs },
+    };
+    const body = renderComment("site", commentState, [
+      details(STATE),
+      details(docs),
+    ]);
+
+    expect(isStagingComment(body, "site")).toBe(true);
+    expect(isStagingComment(body, null)).toBe(false);
+    expect(getCommentState(body)).toEqual(commentState);
+  });
+
+  it("parses the rendered table of comments without an embedded state", () => {
+    const body = `<!-- ci/staging-comment-action -->\n${details(STATE)}`;
+
+    expect(getCommentState(body)).toEqual({
+      targets: { [DEFAULT_TARGET]: STATE },
+    });
+  });
+
+  it("throws when there are no build entries", () => {
+    expect(() => getCommentState("<!-- ci/staging-comment-action -->")).toThrow(
+      "Too few build entries",
+    );
+  });
+
+  it("throws on an unsupported embedded state version", () => {
+    const body = `<!-- ci/staging-comment-state {"version":99} -->`;
+
+    expect(() => getCommentState(body)).toThrow(
+      "Unsupported embedded build state version 99",
+    );
+  });
+});
+
+describe("salvageBuildState", () => {
+  it("recovers the rows that can still be parsed", () => {
+    const garbled = "| 🟢 | Success | not a link | either |";
+    const body = details(STATE).replace("</p>", `${garbled}\n\n</p>`);
+
+    const { entries, invalidRows } = salvageBuildState(body);
+    expect(entries).toEqual([STATE.latest, ...STATE.previous]);
+    expect(invalidRows).toEqual([garbled]);
+  });
+});
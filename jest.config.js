@@ -0,0 +1,15 @@
+module.exports = {
+  clearMocks: true,
+  moduleFileExtensions: ["js", "ts"],
+  testEnvironment: "node",
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  transform: {
+    "^.+\\.ts$": "ts-jest",
+  },
+  globals: {
+    "ts-jest": {
+      tsconfig: "__tests__/tsconfig.json",
+    },
+  },
+  verbose: true,
+};
@@ -0,0 +1,21 @@
+import * as core from "@actions/core";
+import { run } from "./main";
+
+/**
+ * Runs the cleanup script after the job that ran the "pre" step, in which we detect
+ * whether the build was left in progress, and update the comment accordingly
+ * (distinguishing failed, cancelled and skipped builds using the job's conclusion).
+ * Since the post hook of the "pre" step runs even if the job fails or is cancelled
+ * before reaching any later step, it is the one that cleans up
+ */
+export async function cleanup(): Promise<void> {
+  try {
+    if (core.getInput("mode") === "pre") {
+      await run("cleanup");
+    }
+  } catch (error) {
+    core.setFailed(error.message);
+  }
+}
+
+cleanup();
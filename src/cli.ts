@@ -0,0 +1,364 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as fs from "fs";
+import * as path from "path";
+import * as core from "@actions/core";
+import * as yaml from "js-yaml";
+import { GitHub } from "@actions/github";
+import { Context } from "@actions/github/lib/context";
+import { defaultDependencies, run } from "./main";
+import { isStagingComment } from "./templates";
+import { Comment, EventMode, Nil } from "./types";
+import { systemClock } from "./clock";
+import { createClient, PAGE_SIZE } from "./client";
+
+const MODES: EventMode[] = [
+  "pre",
+  "post",
+  "failure",
+  "cancelled",
+  "skipped",
+  "closed",
+  "annotate",
+];
+
+const USAGE = `
+Usage: node lib/cli.js --mode <mode> [options]
+
+Runs the action without writing anything to GitHub, printing the comment it would
+write (along with its outputs) instead.
+
+Options:
+  --mode <mode>          One of ${MODES.join(", ")}
+  --repo <owner/repo>    Repository (defaults to $GITHUB_REPOSITORY)
+  --pr <number>          PR number
+  --sha <sha>            Commit SHA
+  --branch <name>        Head branch of the PR (defaults to "dry-run")
+  --base <name>          Base branch of the PR (defaults to "main")
+  --event <file>         Saved event payload JSON to read the PR and SHA from
+  --event-name <name>    Name of the triggering event (defaults to "pull_request")
+  --comment <file>       Existing comment body to update
+  --token <token>        Token to fetch the PR and existing comment with, read-only
+                         (defaults to $GITHUB_TOKEN; works offline without one)
+  --run-id <id>          Workflow run id to link to (defaults to 0)
+  --verify               Actually probe the deployed URLs in the "post" mode
+  --input <name=value>   Sets any other action input (can be repeated); inputs that
+                         aren't set default to the values in action.yml
+`.trim();
+
+/**
+ * Reads the default value of each action input from action.yml, so that the CLI runs
+ * with the same defaults as a workflow
+ */
+function defaultInputs(): Record<string, string> {
+  const actionYml = yaml.safeLoad(
+    fs.readFileSync(path.join(__dirname, "..", "action.yml"), "utf8"),
+  ) as { inputs: Record<string, { default?: string }> };
+  const defaults: Record<string, string> = {};
+  for (const [name, { default: value }] of Object.entries(actionYml.inputs)) {
+    if (value != null) defaults[name] = value;
+  }
+  return defaults;
+}
+
+/**
+ * Parsed command-line arguments
+ */
+interface CliOptions {
+  mode: EventMode;
+  repo: string;
+  pr: number | Nil;
+  sha: string | Nil;
+  branch: string;
+  base: string;
+  event: string | Nil;
+  eventName: string;
+  comment: string | Nil;
+  token: string | Nil;
+  runId: string;
+  verify: boolean;
+  inputs: Record<string, string>;
+}
+
+/**
+ * Parses the command-line arguments, throwing an Exception if they are invalid
+ * @param argv - Command-line arguments, excluding the node binary and script
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const flags: Record<string, string> = {};
+  const inputs: Record<string, string> = {};
+  let verify = false;
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === "--verify") {
+      verify = true;
+      continue;
+    }
+    if (!flag.startsWith("--") || i + 1 >= argv.length)
+      throw new Error(`Unexpected argument ${flag}\n\n${USAGE}`);
+    const value = argv[++i];
+    if (flag === "--input") {
+      const [name, ...rest] = value.split("=");
+      if (rest.length === 0)
+        throw new Error(`Expected --input name=value, but got ${value}`);
+      inputs[name] = rest.join("=");
+    } else {
+      flags[flag.slice(2)] = value;
+    }
+  }
+
+  const mode = flags.mode as EventMode;
+  if (!MODES.includes(mode))
+    throw new Error(`Expected --mode to be one of ${MODES.join(", ")}`);
+  const repo = flags.repo ?? process.env.GITHUB_REPOSITORY;
+  if (repo == null || !repo.includes("/"))
+    throw new Error(`Expected --repo owner/repo (or $GITHUB_REPOSITORY)`);
+  return {
+    mode,
+    repo,
+    pr: flags.pr != null ? parseInt(flags.pr) : null,
+    sha: flags.sha,
+    branch: flags.branch ?? "dry-run",
+    base: flags.base ?? "main",
+    event: flags.event,
+    eventName: flags["event-name"] ?? "pull_request",
+    comment: flags.comment,
+    token: flags.token ?? process.env.GITHUB_TOKEN,
+    runId: flags["run-id"] ?? "0",
+    verify,
+    inputs,
+  };
+}
+
+/**
+ * Builds the event context from the saved event payload (if given) and the flags
+ * @param options - Parsed command-line arguments
+ */
+function buildContext(options: CliOptions): Context {
+  const [owner, repo] = options.repo.split("/");
+  const payload =
+    options.event != null
+      ? JSON.parse(fs.readFileSync(options.event, "utf8"))
+      : {};
+  const prId =
+    options.pr ?? payload.pull_request?.number ?? payload.issue?.number;
+  if (prId == null)
+    throw new Error(`Expected either --pr or an --event payload with a PR`);
+  const sha: string =
+    options.sha ?? payload.pull_request?.head?.sha ?? "0".repeat(40);
+  if (payload.pull_request == null) {
+    payload.pull_request = {
+      number: prId,
+      head: { sha, ref: options.branch, repo: { full_name: options.repo } },
+      base: { ref: options.base },
+      labels: [],
+      merged: false,
+    };
+  }
+
+  const context = {
+    payload,
+    eventName: options.eventName,
+    sha,
+    ref: `refs/pull/${prId}/merge`,
+    workflow: "dry-run",
+    action: "dry-run",
+    actor: "dry-run",
+    repo: { owner, repo },
+    issue: { owner, repo, number: prId },
+  };
+  return (context as unknown) as Context;
+}
+
+/**
+ * In-memory copy of the PR's comments, which writes are applied to instead of GitHub
+ */
+interface CommentStore {
+  comments: { id: number; body: string; user: { id: number; login: string } }[];
+  nextId: number;
+}
+
+// Id of the (fake) user that the action runs as
+const DRY_RUN_USER = { id: 0, login: "dry-run" };
+
+/**
+ * Builds a GitHub client that never writes to GitHub. Comments are read from and
+ * written to the in-memory store, while any other request is sent to the API (if a
+ * token was given) or answered from the flags and event payload (if not)
+ * @param options - Parsed command-line arguments
+ * @param context - Event context
+ * @param store - In-memory copy of the PR's comments
+ */
+function buildClient(
+  options: CliOptions,
+  context: Context,
+  store: CommentStore,
+): GitHub {
+  const online = options.token != null;
+  // Offline, the client is only used to build request options, and never sends them
+  const real =
+    options.token != null
+      ? createClient(options.token, systemClock)
+      : new GitHub("dry-run");
+  const offline = (): never => {
+    throw new Error("Not available offline; pass --token to fetch it");
+  };
+
+  const client = {
+    ...real,
+    paginate: async (
+      request: { url: string },
+      mapFn?: Parameters<typeof real.paginate>[1],
+    ) => {
+      if (request.url.endsWith("/comments")) return store.comments;
+      return online ? real.paginate(request, mapFn) : [];
+    },
+    users: {
+      getAuthenticated: async () => ({ data: DRY_RUN_USER }),
+    },
+    issues: {
+      ...real.issues,
+      createComment: async ({ body }: { body: string }) => {
+        const comment = { id: store.nextId++, body, user: DRY_RUN_USER };
+        store.comments.push(comment);
+        core.info(`[dry-run] Would create comment ${comment.id}`);
+        return { data: { ...comment, html_url: "(dry-run)" } };
+      },
+      updateComment: async ({
+        comment_id,
+        body,
+      }: {
+        comment_id: number;
+        body: string;
+      }) => {
+        const comment = store.comments.find(({ id }) => id === comment_id);
+        if (comment != null) comment.body = body;
+        core.info(`[dry-run] Would update comment ${comment_id}`);
+        return { data: { ...comment, html_url: "(dry-run)" } };
+      },
+      deleteComment: async ({ comment_id }: { comment_id: number }) => {
+        store.comments = store.comments.filter(({ id }) => id !== comment_id);
+        core.info(`[dry-run] Would delete comment ${comment_id}`);
+        return { data: {} };
+      },
+    },
+    pulls: online
+      ? real.pulls
+      : {
+          get: async () => ({ data: context.payload.pull_request }),
+          listCommits: offline,
+        },
+    actions: online
+      ? real.actions
+      : {
+          ...real.actions,
+          getWorkflowJob: offline,
+          getWorkflowRun: offline,
+          listWorkflowRuns: offline,
+        },
+    repos: online
+      ? real.repos
+      : { listPullRequestsAssociatedWithCommit: offline },
+  };
+  return (client as unknown) as GitHub;
+}
+
+/**
+ * Seeds the in-memory comment store from the given comment body file, or from the
+ * existing staging comment on the PR if a token was given
+ * @param options - Parsed command-line arguments
+ * @param context - Event context
+ */
+async function seedComments(
+  options: CliOptions,
+  context: Context,
+): Promise<CommentStore> {
+  if (options.comment != null) {
+    const body = fs.readFileSync(options.comment, "utf8");
+    return { comments: [{ id: 1, body, user: DRY_RUN_USER }], nextId: 2 };
+  }
+
+  if (options.token != null) {
+    const tag = options.inputs.tag || null;
+    const octokit = createClient(options.token, systemClock);
+    const data: Comment[] = await octokit.paginate(
+      octokit.issues.listComments.endpoint.merge({
+        ...context.repo,
+        issue_number: context.issue.number,
+        per_page: PAGE_SIZE,
+      }),
+    );
+    // The token probably isn't the one the action runs as, so match on the tag only
+    const comments = data
+      .filter((comment) => isStagingComment(comment.body, tag))
+      .map(({ id, body }) => ({ id, body, user: DRY_RUN_USER }));
+    return {
+      comments,
+      nextId: Math.max(0, ...comments.map(({ id }) => id)) + 1,
+    };
+  }
+
+  return { comments: [], nextId: 1 };
+}
+
+/**
+ * Runs the action against the flags given on the command line without writing
+ * anything to GitHub, printing the comment it would write
+ * @param argv - Command-line arguments, excluding the node binary and script
+ */
+export async function dryRun(argv: string[]): Promise<void> {
+  if (argv.includes("--help")) {
+    core.info(USAGE);
+    return;
+  }
+
+  const options = parseArgs(argv);
+  const context = buildContext(options);
+  const store = await seedComments(options, context);
+  const inputs: Record<string, string> = {
+    ...defaultInputs(),
+    "build-time": new Date().toISOString(),
+    ...options.inputs,
+    // Anything that would write somewhere other than the comment is disabled
+    reporter: "comment",
+    deployments: "false",
+    "report-file": "",
+    "report-summary": "false",
+    ...(options.token == null ? { "compare-base-branch": "false" } : {}),
+    // Without --verify, the deployed preview always responds with the expected status
+    ...(!options.verify ? { "verify-content": "" } : {}),
+  };
+
+  await run(options.mode, {
+    ...defaultDependencies,
+    inputs: { get: (name: string) => inputs[name] ?? "" },
+    env: { ...process.env, GITHUB_RUN_ID: options.runId },
+    context,
+    createClient: () => buildClient(options, context, store),
+    http: {
+      get: options.verify
+        ? async (url: string) => defaultDependencies.http.get(url)
+        : async () => ({
+            statusCode: parseInt(inputs["verify-status"] || "200"),
+            body: "",
+          }),
+      delete: async (url: string) => {
+        core.info(`[dry-run] Would send DELETE ${url}`);
+        return { statusCode: 200, body: "" };
+      },
+      post: async (url: string, json: object) => {
+        core.info(`[dry-run] Would POST ${JSON.stringify(json)} to ${url}`);
+        return { statusCode: 200, body: "" };
+      },
+    },
+  });
+
+  for (const comment of store.comments) {
+    core.info(`\n----- Comment ${comment.id} -----\n${comment.body}`);
+  }
+}
+
+if (require.main === module) {
+  dryRun(process.argv.slice(2)).catch((error) => {
+    core.setFailed(error.message);
+  });
+}
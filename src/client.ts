@@ -0,0 +1,162 @@
+import * as core from "@actions/core";
+import { GitHub } from "@actions/github";
+import { Clock } from "./clock";
+import { Nil } from "./types";
+
+// Maximum number of attempts for each request before giving up
+const MAX_ATTEMPTS = 5;
+// Base delay (in milliseconds) before retrying after a transient error, which doubles
+// after each attempt and is randomly jittered
+const BASE_RETRY_DELAY = 1000;
+// GitHub asks clients to wait at least a minute after hitting a secondary rate limit
+const SECONDARY_RATE_LIMIT_DELAY = 60 * 1000;
+// Longest time to wait for a rate limit to reset, after which the request fails instead
+const MAX_RATE_LIMIT_WAIT = 10 * 60 * 1000;
+// Number of items to request per page when listing
+export const PAGE_SIZE = 100;
+
+/**
+ * Subset of the errors thrown by Octokit for failed requests
+ */
+interface RequestError {
+  message: string;
+  status?: number;
+  headers?: Record<string, string | Nil>;
+}
+
+/**
+ * Rate limit status, as last reported by the API
+ */
+interface RateLimit {
+  remaining: number | null;
+  // When the rate limit resets, in milliseconds since the epoch
+  reset: number | null;
+}
+
+/**
+ * Gets how long to wait until the rate limit resets, based on the `x-ratelimit-reset`
+ * header (in seconds since the epoch)
+ * @param reset - Value of the header, if any
+ * @param clock - Source of the current time
+ */
+function untilReset(reset: string | Nil, clock: Clock): number | null {
+  if (reset == null) return null;
+  return Math.max(0, parseInt(reset) * 1000 - clock.now()) + 1000;
+}
+
+/**
+ * Decides whether a failed request should be retried, returning how long to wait
+ * before retrying, or null if it shouldn't be retried
+ * @param error - Error thrown by the request
+ * @param attempt - Number of the attempt that failed, starting from 1
+ * @param clock - Source of the current time
+ */
+function retryDelay(
+  error: RequestError,
+  attempt: number,
+  clock: Clock,
+): number | null {
+  const { status, headers = {} } = error;
+  const backoff =
+    BASE_RETRY_DELAY * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+
+  if (status === 403 || status === 429) {
+    const retryAfter = headers["retry-after"];
+    if (retryAfter != null) return parseInt(retryAfter) * 1000;
+    if (headers["x-ratelimit-remaining"] === "0")
+      return untilReset(headers["x-ratelimit-reset"], clock);
+    if (/secondary rate limit|abuse/i.test(error.message))
+      return SECONDARY_RATE_LIMIT_DELAY + backoff;
+    // Any other 403 is a permissions problem that won't go away by itself
+    return status === 429 ? backoff : null;
+  }
+
+  // Requests that failed without a response (such as from a dropped connection) also
+  // have no status
+  if (status == null || status >= 500) return backoff;
+  return null;
+}
+
+/**
+ * Creates a GitHub API client that retries requests that fail with transient errors
+ * (server errors and rate limits) with backoff, and that waits for the rate limit to
+ * reset before sending a request once it's used up. Requests that create something
+ * may end up being applied twice if a server error happened after they were applied,
+ * which the reporters handle by merging duplicate comments
+ * @param token - GitHub API token
+ * @param clock - Source of the current time, used to wait between attempts
+ */
+export function createClient(token: string, clock: Clock): GitHub {
+  const octokit = new GitHub(token);
+  const rateLimit: RateLimit = { remaining: null, reset: null };
+
+  octokit.hook.wrap("request", async (request, options) => {
+    const description = `${options.method} ${options.url}`;
+    for (let attempt = 1; ; attempt++) {
+      if (rateLimit.remaining === 0 && rateLimit.reset != null) {
+        const wait = rateLimit.reset - clock.now();
+        if (wait > MAX_RATE_LIMIT_WAIT)
+          throw new Error(
+            `GitHub API rate limit is used up until ${new Date(
+              rateLimit.reset,
+            ).toISOString()}`,
+          );
+        if (wait > 0) {
+          core.debug(
+            `Rate limit is used up; waiting ${Math.ceil(
+              wait / 1000,
+            )}s before ${description}`,
+          );
+          await clock.sleep(wait);
+        }
+        rateLimit.remaining = null;
+      }
+
+      try {
+        const response = await request(options);
+        updateRateLimit(rateLimit, response.headers);
+        return response;
+      } catch (err) {
+        const error = err as RequestError;
+        if (error.headers != null) updateRateLimit(rateLimit, error.headers);
+        const delay = retryDelay(error, attempt, clock);
+        const reason = error.status ?? error.message;
+        if (delay == null) {
+          core.debug(`${description} failed (${reason}); not retrying`);
+          throw err;
+        }
+        if (attempt >= MAX_ATTEMPTS || delay > MAX_RATE_LIMIT_WAIT) {
+          core.debug(
+            `${description} failed (${reason}); giving up after ${attempt} attempt(s)`,
+          );
+          throw err;
+        }
+        core.debug(
+          `${description} failed (${reason}); retrying in ${Math.ceil(
+            delay / 1000,
+          )}s (attempt ${attempt} of ${MAX_ATTEMPTS})`,
+        );
+        // The wait is handled here, so don't wait for the rate limit again
+        rateLimit.remaining = null;
+        await clock.sleep(delay);
+      }
+    }
+  });
+  return octokit;
+}
+
+/**
+ * Updates the rate limit status from the headers of a response
+ * @param rateLimit - Rate limit status to update
+ * @param headers - Response headers
+ */
+function updateRateLimit(
+  rateLimit: RateLimit,
+  headers: Record<string, string | Nil>,
+): void {
+  const remaining = headers["x-ratelimit-remaining"];
+  const reset = headers["x-ratelimit-reset"];
+  if (remaining == null || reset == null) return;
+  rateLimit.remaining = parseInt(remaining);
+  rateLimit.reset = parseInt(reset) * 1000;
+}
@@ -0,0 +1,28 @@
+/**
+ * Source of the current time, and of timers for waiting between attempts
+ */
+export interface Clock {
+  /**
+   * Gets the current time, in milliseconds since the epoch
+   */
+  now(): number;
+
+  /**
+   * Waits for the given amount of time
+   * @param ms - Number of milliseconds to wait
+   */
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * Uses the system clock and real timers
+ */
+export const systemClock: Clock = {
+  now(): number {
+    return Date.now();
+  },
+
+  async sleep(ms: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  },
+};
@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import { PAGE_SIZE } from "./client";
+import { ActionContext } from "./types";
+
+/**
+ * Deployment status states reported by the action
+ */
+export type DeploymentState =
+  | "in_progress"
+  | "success"
+  | "failure"
+  | "error"
+  | "inactive";
+
+/**
+ * Preview API media types needed for the `in_progress` state and the
+ * `environment_url`/`log_url` deployment status fields
+ */
+const DEPLOYMENT_PREVIEWS = ["ant-man", "flash"];
+
+/**
+ * Gets the name of the GitHub deployment environment for the current PR, scoped to the
+ * action tag and deploy target if they exist
+ * @param actionContext - Base action context
+ */
+export function deploymentEnvironment(actionContext: ActionContext): string {
+  const { prId, tag, target } = actionContext;
+  return [`pr-${prId}`, tag, target]
+    .filter((part) => part != null && part !== "")
+    .join("-");
+}
+
+/**
+ * Attempts to find the most recent deployment for the current commit and environment,
+ * creating a new one if none exist
+ * @param actionContext - Base action context
+ */
+async function getOrCreateDeployment(
+  actionContext: ActionContext,
+): Promise<number> {
+  const { octokit, repo, sha } = actionContext;
+  const environment = deploymentEnvironment(actionContext);
+  const { data: deployments } = await octokit.repos.listDeployments({
+    ...repo,
+    sha,
+    environment,
+    mediaType: { previews: DEPLOYMENT_PREVIEWS },
+  });
+  if (deployments.length >= 1) {
+    core.debug(
+      `Found existing deployment ${deployments[0].id} for ${sha} in ${environment}`,
+    );
+    return deployments[0].id;
+  }
+
+  const { data: deployment } = await octokit.repos.createDeployment({
+    ...repo,
+    ref: sha,
+    environment,
+    description: `Deploy preview for PR #${actionContext.prId}`,
+    // Deploy the exact commit that was built, without merging in the base branch
+    auto_merge: false,
+    required_contexts: [],
+    transient_environment: true,
+    production_environment: false,
+    mediaType: { previews: DEPLOYMENT_PREVIEWS },
+  });
+  core.info(`Created deployment ${deployment.id} for ${sha} in ${environment}`);
+  return deployment.id;
+}
+
+/**
+ * Posts a new status for the given deployment
+ * @param actionContext - Base action context
+ * @param deploymentId - Id of the deployment
+ * @param state - New deployment status state
+ */
+async function setDeploymentStatus(
+  actionContext: ActionContext,
+  deploymentId: number,
+  state: DeploymentState,
+): Promise<void> {
+  const { octokit, repo, stagingUrl, runLink } = actionContext;
+  await octokit.repos.createDeploymentStatus({
+    ...repo,
+    deployment_id: deploymentId,
+    state,
+    log_url: runLink,
+    environment_url:
+      state === "in_progress" || state === "success" ? stagingUrl : "",
+    mediaType: { previews: DEPLOYMENT_PREVIEWS },
+  });
+  core.debug(`Set status of deployment ${deploymentId} to ${state}`);
+}
+
+/**
+ * Posts a new deployment status for the current commit, creating the deployment if it
+ * doesn't exist yet. Does nothing unless deployments are enabled
+ * @param actionContext - Base action context
+ * @param state - New deployment status state
+ */
+export async function updateDeployment(
+  actionContext: ActionContext,
+  state: DeploymentState,
+): Promise<void> {
+  if (!actionContext.deployments) return;
+
+  const deploymentId = await getOrCreateDeployment(actionContext);
+  core.setOutput("deploymentId", deploymentId);
+  await setDeploymentStatus(actionContext, deploymentId, state);
+}
+
+/**
+ * Marks every existing deployment in the current environment (for any commit) as
+ * inactive, without creating one if there aren't any, since there is nothing to
+ * deactivate. Does nothing unless deployments are enabled
+ * @param actionContext - Base action context
+ */
+export async function deactivateDeployments(
+  actionContext: ActionContext,
+): Promise<void> {
+  const { deployments, octokit, repo } = actionContext;
+  if (!deployments) return;
+
+  const environment = deploymentEnvironment(actionContext);
+  const existing: { id: number }[] = await octokit.paginate(
+    octokit.repos.listDeployments.endpoint.merge({
+      ...repo,
+      environment,
+      per_page: PAGE_SIZE,
+      mediaType: { previews: DEPLOYMENT_PREVIEWS },
+    }),
+  );
+  if (existing.length === 0) {
+    core.info(`No deployments in ${environment} to deactivate`);
+    return;
+  }
+
+  for (const { id } of existing) {
+    await setDeploymentStatus(actionContext, id, "inactive");
+  }
+  core.info(`Deactivated ${existing.length} deployment(s) in ${environment}`);
+}
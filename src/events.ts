@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import { GitHub } from "@actions/github";
+import { Context } from "@actions/github/lib/context";
+import { ReposListPullRequestsAssociatedWithCommitResponseData } from "@octokit/types";
+import { Item, Nil, PullRequest, Repo } from "./types";
+
+type AssociatedPullRequest = Item<
+  ReposListPullRequestsAssociatedWithCommitResponseData
+>;
+
+/**
+ * Commit (and PR, if any) that the triggering event refers to
+ */
+export interface ResolvedEvent {
+  prId: number | null;
+  sha: string;
+  // Head commit of the PR that the event is for, which differs from the built commit
+  // when building the merge commit
+  headSha: string;
+  branch: string;
+  // Whether the PR's head branch has moved on from the commit since the run started
+  outdated: boolean;
+  // Id of the workflow run that built the commit, if it isn't the current run
+  runId?: number;
+  // Association of the commenter with the repository, for runs triggered by a comment
+  commentAssociation?: string;
+}
+
+/**
+ * Which commit to build for PRs: either the head commit of the PR's branch, or the
+ * merge commit of the PR into its base branch
+ */
+export type CommitSource = "head" | "merge";
+
+/**
+ * Subset of the `workflow_run` event payload used by the action
+ */
+interface WorkflowRunPayload {
+  id: number;
+  head_sha: string;
+  head_branch: string;
+  // Includes PRs of other repositories whose head is the same branch
+  pull_requests: { number: number; base: { repo: { id: number } } }[];
+}
+
+/**
+ * Gets the GitHub API object for the given PR
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param prId - PR ID for the current CI context
+ * @param repo - GitHub repo for the current CI context
+ */
+export async function getPullRequest(
+  octokit: GitHub,
+  prId: number,
+  repo: Repo,
+): Promise<PullRequest> {
+  const { data: pr } = await octokit.pulls.get({ ...repo, pull_number: prId });
+  return (pr as unknown) as PullRequest;
+}
+
+/**
+ * Resolves the commit for an event that refers to a PR. The commit is taken from the
+ * event payload if it includes the PR (so that the commit is the one that triggered the
+ * run, even if the branch has since moved on), or from the PR's current head otherwise
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param prId - PR ID from the event payload
+ * @param repo - GitHub repo for the current CI context
+ * @param source - Whether to use the PR's head commit or its merge commit
+ * @param context - Context of the triggering event
+ */
+async function resolvePullRequest(
+  octokit: GitHub,
+  prId: number,
+  repo: Repo,
+  source: CommitSource,
+  context: Context,
+): Promise<ResolvedEvent> {
+  const pr = await getPullRequest(octokit, prId, repo);
+  const payloadPr = context.payload.pull_request as PullRequest | Nil;
+  const headSha = payloadPr?.head.sha ?? pr.head.sha;
+  const branch = pr.head.ref;
+
+  let sha = headSha;
+  if (source === "merge") {
+    // GITHUB_SHA is only the merge commit for `pull_request` events
+    sha =
+      context.eventName === "pull_request"
+        ? context.sha
+        : ((pr as unknown) as { merge_commit_sha: string }).merge_commit_sha;
+  }
+
+  const outdated = headSha !== pr.head.sha;
+  if (outdated) {
+    core.info(
+      `Branch ${branch} has moved on from ${headSha} to ${pr.head.sha} since the run started`,
+    );
+  }
+  return { prId, sha, headSha, branch, outdated };
+}
+
+/**
+ * Resolves the commit for a `workflow_run` event, which refers to the head commit of the
+ * triggering run. Since the run's `pull_requests` are empty for PRs from forks (and can
+ * include PRs in other repositories), the PR is looked up from the head SHA instead if
+ * none of them target the current repository
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param repo - GitHub repo for the current CI context
+ * @param context - Context of the triggering event
+ */
+async function resolveWorkflowRun(
+  octokit: GitHub,
+  repo: Repo,
+  context: Context,
+): Promise<ResolvedEvent> {
+  const workflowRun = context.payload.workflow_run as WorkflowRunPayload;
+  const { id: runId, head_sha: sha, head_branch: branch } = workflowRun;
+  const repoId: number | Nil = context.payload.repository?.id;
+  let prId: number | Nil = workflowRun.pull_requests.find(
+    (pull) => pull.base.repo.id === repoId,
+  )?.number;
+  if (prId == null) prId = await findPullRequest(octokit, repo, sha);
+  if (prId == null)
+    return { prId: null, sha, headSha: sha, branch, outdated: false, runId };
+
+  const pr = await getPullRequest(octokit, prId, repo);
+  return {
+    prId,
+    sha,
+    headSha: sha,
+    branch,
+    outdated: pr.head.sha !== sha,
+    runId,
+  };
+}
+
+/**
+ * Attempts to find the open PR that the given commit belongs to, or null if one isn't
+ * found
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param repo - GitHub repo for the current CI context
+ * @param sha - Full commit SHA
+ */
+async function findPullRequest(
+  octokit: GitHub,
+  repo: Repo,
+  sha: string,
+): Promise<number | null> {
+  const { data } = await octokit.repos.listPullRequestsAssociatedWithCommit({
+    ...repo,
+    commit_sha: sha,
+    mediaType: { previews: ["groot"] },
+  });
+  const pulls = (data as unknown) as AssociatedPullRequest[];
+  const pr =
+    pulls.find((pull) => pull.state === "open" && pull.head.sha === sha) ??
+    pulls.find((pull) => pull.state === "open");
+  if (pr == null) core.info(`No open PRs found for commit ${sha}`);
+  return pr?.number ?? null;
+}
+
+/**
+ * Resolves the PR, commit SHA and branch from the triggering event, supporting
+ * `pull_request`, `pull_request_target`, `issue_comment` (on PRs) and `workflow_run`
+ * events. Any other event (such as `push`) is resolved from the environment without a PR
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param repo - GitHub repo for the current CI context
+ * @param source - Whether to use the PR's head commit or its merge commit
+ * @param context - Context of the triggering event
+ */
+export async function resolveEvent(
+  octokit: GitHub,
+  repo: Repo,
+  source: CommitSource,
+  context: Context,
+): Promise<ResolvedEvent> {
+  switch (context.eventName) {
+    case "pull_request":
+    case "pull_request_target":
+      return resolvePullRequest(
+        octokit,
+        context.issue.number,
+        repo,
+        source,
+        context,
+      );
+    case "issue_comment": {
+      const issue: { number: number; pull_request?: object } | Nil =
+        context.payload.issue;
+      if (issue?.pull_request != null) {
+        const event = await resolvePullRequest(
+          octokit,
+          issue.number,
+          repo,
+          source,
+          context,
+        );
+        const comment: { author_association: string } | Nil =
+          context.payload.comment;
+        return { ...event, commentAssociation: comment?.author_association };
+      }
+      break;
+    }
+    case "workflow_run":
+      return resolveWorkflowRun(octokit, repo, context);
+  }
+
+  // Extract the commit SHA/branch from the environment
+  return {
+    prId: null,
+    sha: context.sha,
+    headSha: context.sha,
+    branch: context.ref.replace(/^refs\/heads\//, ""),
+    outdated: false,
+  };
+}
@@ -0,0 +1,72 @@
+import got from "got";
+
+const REQUEST_TIMEOUT = 30 * 1000;
+const PROBE_TIMEOUT = 10 * 1000;
+// Number of times to retry requests that change something on another server
+const MAX_RETRIES = 2;
+
+/**
+ * Response to a single HTTP request
+ */
+export interface HttpResponse {
+  statusCode: number;
+  body: string;
+}
+
+/**
+ * Makes outbound HTTP requests (to the staging server and to webhooks)
+ */
+export interface Http {
+  /**
+   * Makes a single GET request, without retrying or throwing on error statuses (since
+   * deployed previews are probed repeatedly anyway)
+   * @param url - URL to request
+   */
+  get(url: string): Promise<HttpResponse>;
+
+  /**
+   * Sends a DELETE request, retrying it on transient errors and throwing if it fails
+   * @param url - URL to request
+   */
+  delete(url: string): Promise<HttpResponse>;
+
+  /**
+   * Sends a POST request with a JSON body, retrying it on transient errors and throwing
+   * if it fails
+   * @param url - URL to request
+   * @param json - Request body, serialized as JSON
+   */
+  post(url: string, json: object): Promise<HttpResponse>;
+}
+
+/**
+ * Makes real HTTP requests using got
+ */
+export const gotHttp: Http = {
+  async get(url: string): Promise<HttpResponse> {
+    const { statusCode, body } = await got(url, {
+      throwHttpErrors: false,
+      retry: 0,
+      timeout: PROBE_TIMEOUT,
+    });
+    return { statusCode, body };
+  },
+
+  async delete(url: string): Promise<HttpResponse> {
+    const { statusCode, body } = await got.delete(url, {
+      timeout: REQUEST_TIMEOUT,
+      retry: MAX_RETRIES,
+    });
+    return { statusCode, body };
+  },
+
+  async post(url: string, json: object): Promise<HttpResponse> {
+    const { statusCode, body } = await got.post(url, {
+      json,
+      timeout: REQUEST_TIMEOUT,
+      // got doesn't retry POST requests unless asked to, since they aren't idempotent
+      retry: { limit: MAX_RETRIES, methods: ["POST"] },
+    });
+    return { statusCode, body };
+  },
+};
@@ -7,7 +7,15 @@ import { run } from "./main";
 export async function bootstrap(): Promise<void> {
   try {
     const mode: string = core.getInput("mode");
-    if (mode === "pre" || mode === "post" || mode === "failure")
+    if (
+      mode === "pre" ||
+      mode === "post" ||
+      mode === "failure" ||
+      mode === "cancelled" ||
+      mode === "skipped" ||
+      mode === "closed" ||
+      mode === "annotate"
+    )
       await run(mode);
   } catch (error) {
     core.setFailed(error.message);
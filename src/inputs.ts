@@ -0,0 +1,52 @@
+import * as core from "@actions/core";
+import * as path from "path";
+import { Env } from "./types";
+
+/**
+ * Source of the action inputs
+ */
+export interface Inputs {
+  /**
+   * Gets the value of the input with the given name, or an empty string if it isn't set
+   * @param name - Name of the action input
+   */
+  get(name: string): string;
+}
+
+/**
+ * Reads the action inputs from the workflow
+ */
+export const actionInputs: Inputs = {
+  get(name: string): string {
+    return core.getInput(name);
+  },
+};
+
+/**
+ * Parses a non-negative numeric input, throwing an Exception if it is invalid
+ * @param inputs - Source of the action inputs
+ * @param name - Name of the action input
+ * @param fallback - Default value if the input is empty
+ */
+export function numberInput(
+  inputs: Inputs,
+  name: string,
+  fallback: number,
+): number {
+  const raw = inputs.get(name).trim();
+  if (raw.length === 0) return fallback;
+  // Unlike parseFloat, rejects values with trailing units (such as "6h")
+  const value = Number(raw);
+  if (isNaN(value) || value < 0)
+    throw new Error(`Invalid value for input "${name}": ${raw}`);
+  return value;
+}
+
+/**
+ * Resolves a file path input against the workspace that the repository is checked out in
+ * @param file - Path relative to the workspace
+ * @param env - Environment variables of the run
+ */
+export function workspacePath(file: string, env: Env): string {
+  return path.resolve(env.GITHUB_WORKSPACE ?? process.cwd(), file);
+}
@@ -0,0 +1,61 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import { GitHub } from "@actions/github";
+import { PAGE_SIZE } from "./client";
+import { Env, Job, Nil, Repo } from "./types";
+
+// The API also reports which runner picked up a job, though Octokit's types predate it
+type RunnerJob = Job & { runner_name?: string | null };
+
+/**
+ * Attempts to find a job of a workflow run from the API, which can be identified by
+ * its runner (or its id) instead of its name for the current run
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param repo - GitHub repo for the current CI context
+ * @param runId - GitHub actions workflow run Id
+ * @param jobName - GitHub actions job name, if known
+ * @param env - Environment variables of the runner
+ */
+export async function getJob(
+  octokit: GitHub,
+  repo: Repo,
+  runId: number,
+  jobName: string | Nil,
+  env: Env,
+): Promise<Job | Nil> {
+  const isCurrentRun = runId.toString() === env.GITHUB_RUN_ID;
+  if ((jobName == null || jobName === "") && !isCurrentRun) {
+    core.info(`Skipping job matching without "job-name"`);
+    return null;
+  }
+
+  const jobs: Job[] = await octokit.paginate(
+    octokit.actions.listJobsForWorkflowRun.endpoint.merge({
+      ...repo,
+      run_id: runId,
+      per_page: PAGE_SIZE,
+    }),
+  );
+  if (jobName == null || jobName === "") {
+    // Without a name, look for the job running on this runner (or named after its id)
+    const job =
+      jobs.find(
+        (other) =>
+          other.status === "in_progress" &&
+          env.RUNNER_NAME != null &&
+          (other as RunnerJob).runner_name === env.RUNNER_NAME,
+      ) ?? jobs.find((other) => other.name === env.GITHUB_JOB);
+    if (job == null) {
+      core.info(`Couldn't identify the current job without "job-name"`);
+    }
+    return job;
+  }
+  const foundJobs = jobs.filter((job) => job.name === jobName);
+  if (foundJobs.length === 0) {
+    core.warning(
+      `No jobs matching job.name = ${jobName} for workflow run with id ${runId}`,
+    );
+    return null;
+  }
+  return foundJobs[0];
+}
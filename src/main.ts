@@ -1,212 +1,183 @@
 /* eslint-disable @typescript-eslint/camelcase */
 import * as core from "@actions/core";
-import got from "got";
-import { GitHub, context } from "@actions/github";
+import { context } from "@actions/github";
 import {
-  IssuesListCommentsForRepoResponseData,
-  ReposListCommitsResponseData,
-  ActionsListJobsForWorkflowRunResponseData,
-  PullsGetResponseData,
-} from "@octokit/types";
-import {
-  isStagingComment,
-  getBuildState,
-  building,
+  getCommentState,
+  salvageBuildState,
+  archiveBody,
+  renderComment,
+  templateKind,
   BuildEntry,
+  BuildResult,
   BuildState,
   BuildEmoji,
   BuildStatus,
+  CommentState,
   date,
   duration,
-  successful,
-  failed,
+  defaultTemplates,
+  Templates,
+  DEFAULT_TARGET,
 } from "./templates";
+import {
+  ActionContext,
+  Dependencies,
+  EventMode,
+  Job,
+  Nil,
+  Repo,
+} from "./types";
+import { actionInputs, numberInput, Inputs } from "./inputs";
+import { systemClock } from "./clock";
+import { createClient } from "./client";
+import {
+  deactivateDeployments,
+  updateDeployment,
+  DeploymentState,
+} from "./deployments";
+import { getReporter, Report } from "./reporters";
+import { loadTemplateFile } from "./templateFile";
+import { getVerifyOptions, verifyDeploy } from "./verify";
+import { gotHttp } from "./http";
+import { reconcileState } from "./reconcile";
+import { getPullRequest, resolveEvent } from "./events";
+import {
+  expandPattern,
+  validatePattern,
+  DEFAULT_COMMIT_URL_PATTERN,
+  DEFAULT_PR_URL_PATTERN,
+  DEFAULT_TEARDOWN_URL_PATTERN,
+} from "./urls";
+import { teardownPreview } from "./teardown";
+import { setReportOutputs } from "./outputs";
+import {
+  getBaseBaseline,
+  getTrendOptions,
+  readManifestSize,
+  withTrends,
+  Baseline,
+} from "./trends";
+import { evaluateTrust, getTrustPolicy, TrustDecision } from "./trust";
+import { getJob } from "./jobs";
+import { getOwnershipPolicy } from "./ownership";
+import { buildEvents, getNotifyOptions, notify } from "./notify";
+import {
+  getRetentionOptions,
+  pruneState,
+  renderWithinLimit,
+} from "./retention";
 
-type EventMode = "pre" | "post" | "failure";
-type Item<T> = T extends (infer I)[] ? I : never;
-type Comment = Item<IssuesListCommentsForRepoResponseData>;
-type Commit = Item<ReposListCommitsResponseData>;
-type PullRequest = PullsGetResponseData;
-type Job = Item<ActionsListJobsForWorkflowRunResponseData["jobs"]>;
-type Nil = null | undefined;
-
-interface Repo {
-  repo: string;
-  owner: string;
-}
-
-/**
- * Common parameters sent to action states
- */
-interface ActionContext {
-  buildDuration: number | Nil;
-  stagingUrl: string;
-  commitUrl: string;
-  shortSha: string;
-  octokit: GitHub;
-  buildTime: Date;
-  runLink: string;
-  prId: number;
-  sha: string;
-  repo: Repo;
-  tag: string | Nil;
-}
-
-/**
- * Attempts to find an existing action comment for the given PR, or null if one isn't
- * found
- * @param octokit - Current Octokit GitHub API binding instance
- * @param prId - PR ID for the current CI context
- * @param repo - GitHub repo for the current CI context
- * @param tag - Optional action tag
- */
-async function getActionComment(
-  octokit: GitHub,
-  prId: number,
-  repo: Repo,
-  tag: string | Nil,
-): Promise<Comment | Nil> {
-  const { data: thisUser } = await octokit.users.getAuthenticated();
-  const { data: comments } = await octokit.issues.listComments({
-    issue_number: prId,
-    ...repo,
-  });
-  const thisUserComments = comments.filter(
-    (comment) => comment.user.id === thisUser.id,
-  );
-  const specialComments = thisUserComments.filter((comment) =>
-    isStagingComment(comment.body, tag),
-  );
-  if (specialComments.length >= 1) return specialComments[0];
-  return null;
-}
-
-/**
- * Gets the GitHub API object for the given PR
- * @param octokit - Current Octokit GitHub API binding instance
- * @param prId - PR ID for the current CI context
- * @param repo - GitHub repo for the current CI context
- */
-async function getPullRequest(
-  octokit: GitHub,
-  prId: number,
-  repo: Repo,
-): Promise<PullRequest> {
-  const { data: pr } = await octokit.pulls.get({ ...repo, pull_number: prId });
-  return (pr as unknown) as PullRequest;
-}
-
-/**
- * Gets the SHA of the latest commit on the branch for the given PR
- * @param octokit - Current Octokit GitHub API binding instance
- * @param prId - PR ID for the current CI context
- * @param repo - GitHub repo for the current CI context
- */
-async function getLatestCommit(
-  octokit: GitHub,
-  prId: number,
-  repo: Repo,
-): Promise<[Commit, string]> {
-  const pr = await getPullRequest(octokit, prId, repo);
-  const branch = pr.head.ref;
-  if (pr.head.repo.full_name !== `${repo.owner}/${repo.repo}`) {
-    const message = `Skipping build for untrusted external repository ${pr.head.repo.full_name}`;
-    throw new Error(message);
-  } else {
-    // Use the latest commit from the branch
-    const { data: commits } = await octokit.repos.listCommits({
-      ...repo,
-      sha: branch,
-      // Get the latest commit on the branch
-      per_page: 1,
-    });
-    if (commits.length === 0)
-      throw new Error(`No commits found in branch ${branch}`);
-    return [(commits[0] as unknown) as Commit, branch];
-  }
-}
+// GitHub-hosted jobs time out after 6 hours (in minutes) by default
+const DEFAULT_STALE_TIMEOUT = 6 * 60;
+// Number of times to try writing the report before giving up on concurrent writers
+const MAX_PUBLISH_ATTEMPTS = 5;
+// Base delay (in milliseconds) between attempts, which is randomly jittered
+const PUBLISH_RETRY_DELAY = 2000;
 
 /**
- * Attempts to find the currently running job from the API
- * @param octokit - Current Octokit GitHub API binding instance
- * @param repo - GitHub repo for the current CI context
- * @param runId - GitHub actions workflow run Id
- * @param jobName - GitHub actions job name for the staging job
+ * Dependencies used when running in a workflow
  */
-async function getJob(
-  octokit: GitHub,
-  repo: Repo,
-  runId: number,
-  jobName: string | Nil,
-): Promise<Job | Nil> {
-  if (jobName == null) {
-    core.info(`Skipping job matching; linking to overall workflow run`);
-    return null;
-  }
-
-  const { data } = await octokit.actions.listJobsForWorkflowRun({
-    ...repo,
-    run_id: runId,
-  });
-  const foundJobs = data.jobs.filter((job) => job.name === jobName);
-  if (foundJobs.length === 0) {
-    core.warning(
-      `No jobs matching job.name = ${jobName} for workflow run with id ${runId}`,
-    );
-    return null;
-  }
-  return foundJobs[0];
-}
+export const defaultDependencies: Dependencies = {
+  inputs: actionInputs,
+  env: process.env,
+  context,
+  createClient,
+  clock: systemClock,
+  http: gotHttp,
+};
 
 /**
  * Runs the main action logic depending on the mode
  * @param mode - Event mode for the action (i.e. phase of CI job)
+ * @param dependencies - External dependencies of the action
  */
-export async function run(mode: EventMode): Promise<void> {
-  const token: string = core.getInput("GITHUB_TOKEN");
-  const baseStagingUrl: string = core.getInput("base-staging-url");
-  const buildTime: string = core.getInput("build-time");
-  const buildDuration: string = core.getInput("build-duration");
-  const jobName: string | Nil = core.getInput("job-name");
-  let tag: string | Nil = core.getInput("tag");
+export async function run(
+  mode: EventMode,
+  dependencies: Dependencies = defaultDependencies,
+): Promise<void> {
+  const { inputs, env, clock, http } = dependencies;
+  const token: string = inputs.get("GITHUB_TOKEN");
+  const baseStagingUrl: string = inputs.get("base-staging-url");
+  const buildTime: string = inputs.get("build-time");
+  const buildDuration: string = inputs.get("build-duration");
+  const jobName: string | Nil = inputs.get("job-name");
+  let tag: string | Nil = inputs.get("tag");
   if (tag === "") tag = null;
+  const target: string = inputs.get("target") || DEFAULT_TARGET;
+  const archiveCorrupted = inputs.get("archive-corrupted-comment") === "true";
+  const deployments = inputs.get("deployments") === "true";
+  const reporter = getReporter(inputs.get("reporter"));
+  const ownership = getOwnershipPolicy(inputs);
+  const notifyOptions = getNotifyOptions(inputs);
+  const reportFile = inputs.get("report-file");
+  const reportSummary = inputs.get("report-summary") === "true";
+  const verify = getVerifyOptions(inputs);
+  const retention = getRetentionOptions(inputs);
+  const trends = getTrendOptions(inputs);
+  const staleTimeout = numberInput(
+    inputs,
+    "stale-timeout",
+    DEFAULT_STALE_TIMEOUT,
+  );
+  const trustPolicy = getTrustPolicy(inputs);
+  const commitUrlPattern =
+    inputs.get("commit-url-pattern") || DEFAULT_COMMIT_URL_PATTERN;
+  const prUrlPattern = inputs.get("pr-url-pattern") || DEFAULT_PR_URL_PATTERN;
+  validatePattern("commit-url-pattern", commitUrlPattern);
+  validatePattern("pr-url-pattern", prUrlPattern);
+  const teardown = inputs.get("teardown") === "true";
+  const teardownUrlPattern =
+    inputs.get("teardown-url-pattern") || DEFAULT_TEARDOWN_URL_PATTERN;
+  validatePattern("teardown-url-pattern", teardownUrlPattern);
+  const result = mode === "annotate" ? getResult(inputs) : null;
+  const templateFile = inputs.get("template-file");
+  // Load the template file first so that any problems with it are reported right away
+  const templates =
+    templateFile !== ""
+      ? loadTemplateFile(templateFile, env)
+      : defaultTemplates;
+  const commitSource = inputs.get("commit-source") || "head";
+  if (commitSource !== "head" && commitSource !== "merge")
+    throw new Error(
+      `Unknown commit source "${commitSource}"; expected either "head" or "merge"`,
+    );
 
   const parsedBuildDuration =
     buildDuration.trim().length > 0 ? parseInt(buildDuration.trim()) : null;
-  const octokit = new GitHub(token);
-  const { repo } = context;
+  const octokit = dependencies.createClient(token, dependencies.clock);
+  const { repo } = dependencies.context;
 
-  const runId: string | Nil = process.env.GITHUB_RUN_ID;
+  const runId: string | Nil = env.GITHUB_RUN_ID;
   if (runId == null)
     throw new Error(
       `Environment variable "GITHUB_RUN_ID" undefined; couldn't link to action run`,
     );
 
-  const job = await getJob(octokit, repo, parseInt(runId), jobName);
-  const isPr = context.eventName === "pull_request";
-
-  let sha: string;
-  let branch: string;
-  if (isPr) {
-    // Extract commit SHA from the latest commit on the PR's head branch
-    const prId = context.issue.number;
-    const [lastCommit, lastCommitBranch] = await getLatestCommit(
-      octokit,
-      prId,
-      repo,
-    );
-    sha = lastCommit.sha;
-    branch = lastCommitBranch;
-  } else {
-    // Extract the commit SHA/branch from the environment
-    sha = context.sha;
-    branch = context.ref.replace(/^refs\/heads\//, "");
-  }
+  const event = await resolveEvent(
+    octokit,
+    repo,
+    commitSource,
+    dependencies.context,
+  );
+  const { sha, headSha, branch, outdated } = event;
+  const isPr = event.prId != null;
+  // Link to the run that built the commit if it was triggered by another workflow run
+  const buildRunId = event.runId?.toString() ?? runId;
+  const job = await getJob(octokit, repo, parseInt(buildRunId), jobName, env);
 
   const shortSha = sha.slice(0, 7);
-  const prId = isPr ? context.issue.number : 0;
-  const commitUrl = `${baseStagingUrl}/commit/${shortSha}/`;
-  const stagingUrl = isPr ? `${baseStagingUrl}/pr/${prId}/` : commitUrl;
+  const prId = event.prId ?? 0;
+  const urlValues = {
+    base: baseStagingUrl,
+    sha,
+    shortSha,
+    pr: event.prId,
+    branch,
+    tag,
+    runId: buildRunId,
+  };
+  const commitUrl = expandPattern(commitUrlPattern, urlValues);
+  const stagingUrl = isPr ? expandPattern(prUrlPattern, urlValues) : commitUrl;
 
   // Output global information about build
   core.setOutput("runId", runId);
@@ -216,15 +187,21 @@ export async function run(mode: EventMode): Promise<void> {
   core.setOutput("sha", sha);
   core.setOutput("commitUrl", commitUrl);
 
+  let trust: TrustDecision = { trusted: true, reason: "Not a PR" };
+  let baseBranch = "";
   if (isPr) {
     // Output additional information for PRs
     const pr = await getPullRequest(octokit, prId, repo);
+    trust = evaluateTrust(pr, repo, trustPolicy, event.commentAssociation);
+    baseBranch = pr.base.ref;
     core.setOutput("prId", prId);
-    core.setOutput("baseBranch", pr.base.ref);
+    core.setOutput("baseBranch", baseBranch);
   } else {
     core.setOutput("prId", "");
     core.setOutput("baseBranch", "");
   }
+  core.setOutput("trusted", trust.trusted);
+  core.setOutput("trustReason", trust.reason);
 
   // Stop execution if not a PR
   if (!isPr) {
@@ -233,99 +210,277 @@ export async function run(mode: EventMode): Promise<void> {
   }
 
   const actionContext: ActionContext = {
-    runLink: job?.html_url ?? buildRunLink(repo, runId),
+    runLink: job?.html_url ?? buildRunLink(repo, buildRunId),
+    runId: parseInt(buildRunId),
+    baseBranch,
     buildTime: new Date(Date.parse(buildTime)),
     buildDuration: parsedBuildDuration,
+    archiveCorrupted,
+    deployments,
     stagingUrl,
+    teardownUrl: teardown ? expandPattern(teardownUrlPattern, urlValues) : null,
+    reporter,
+    ownership,
+    reportFile: reportFile !== "" ? reportFile : null,
+    reportSummary,
+    retention,
+    trends,
+    templates,
+    jobName,
+    verify,
+    notify: notifyOptions,
+    staleTimeout: staleTimeout * 60 * 1000,
     commitUrl,
     shortSha,
+    outdated,
     sha,
+    headSha,
     octokit,
+    clock,
+    http,
+    env,
     repo,
     prId,
     tag,
+    target,
   };
 
+  // Closed PRs are always cleaned up, even if they were never trusted
+  if (!trust.trusted && mode !== "closed") {
+    // The approval notice written in the "pre" step doesn't need to be cleaned up
+    if (mode === "cleanup") return;
+    core.info(`Skipping deploy preview for untrusted PR: ${trust.reason}`);
+    await requireApproval(actionContext, trust);
+    if (trustPolicy.continueUntrusted) return;
+    throw new Error(`Deploy preview needs approval: ${trust.reason}`);
+  }
+
   switch (mode) {
     case "pre":
       await pre(actionContext);
       break;
     case "post":
-      core.saveState("stagingSuccess", "true");
       await post(actionContext);
       break;
     case "failure":
       await failure(actionContext);
+      break;
+    case "cancelled":
+      await cancel(actionContext);
+      break;
+    case "skipped":
+      await skip(actionContext);
+      break;
+    case "closed":
+      await closed(actionContext);
+      break;
+    case "annotate":
+      if (result != null) await annotate(actionContext, result);
+      break;
+    case "cleanup":
+      await cleanup(actionContext, job);
   }
 }
 
 /**
- * Updates the existing comment in the context if it exists with the given body, or
- * creates a new comment if it doesn't exist
- * @param newBody - New comment body to use
- * @param comment - Action comment
+ * Determines why a job didn't succeed from its (or its steps') conclusions, defaulting
+ * to a cancellation if nothing failed. While the cleanup step is running, the job
+ * itself won't have a conclusion yet, so its steps are used instead
+ * @param job - Current job
+ */
+function getJobConclusion(job: Job): "failure" | "cancelled" | "skipped" {
+  const conclusions = [
+    job.conclusion,
+    ...job.steps.map((step) => step.conclusion),
+  ];
+  if (conclusions.includes("failure")) return "failure";
+  if (conclusions.includes("cancelled")) return "cancelled";
+  if (conclusions.includes("skipped")) return "skipped";
+  // Nothing failed, so the job must have been stopped before the post step
+  return "cancelled";
+}
+
+/**
+ * Executes the cleanup logic that runs once the job finishes (as the post hook of the
+ * "pre" step). If the build entry for the current commit is still in progress for this
+ * run, the build never reached the "post" step, so the reason is determined from the
+ * job's step conclusions. Does nothing if a later step already recorded the build, or if
+the job can't be found (the entry is then reconciled once the run completes)
  * @param actionContext - Base action context
+ * @param job - Current job, if it could be found
  */
-async function patchComment(
-  newBody: string,
-  comment: Comment | Nil,
+async function cleanup(
   actionContext: ActionContext,
+  job: Job | Nil,
 ): Promise<void> {
-  const { octokit, prId, repo } = actionContext;
-  if (comment != null) {
-    await octokit.issues.updateComment({
-      ...repo,
-      body: newBody,
-      comment_id: comment.id,
-    });
-  } else {
-    await octokit.issues.createComment({
-      ...repo,
-      body: newBody,
-      issue_number: prId,
-    });
+  const { reporter, target, shortSha, runLink } = actionContext;
+  const report = await reporter.find(actionContext);
+  let state: BuildState | Nil;
+  try {
+    state =
+      report != null ? getCommentState(report.body).targets[target] : null;
+  } catch (err) {
+    core.warning(
+      `Unable to parse existing report ${report?.id} (${err.message}); skipping cleanup`,
+    );
+    return;
+  }
+
+  const entry = [state?.latest, ...(state?.previous ?? [])].find(
+    (other) => other?.commitSha === shortSha,
+  );
+  if (
+    entry == null ||
+    entry.status !== BuildStatus.InProgress ||
+    entry.runLink !== runLink
+  ) {
+    core.info(
+      `Build entry for ${shortSha} isn't in progress for this run; nothing to clean up`,
+    );
+    return;
+  }
+
+  if (job == null) {
+    core.warning(
+      `Couldn't find the job to tell why build ${shortSha} stopped; leaving it to be reconciled once the run completes`,
+    );
+    return;
+  }
+
+  switch (getJobConclusion(job)) {
+    case "cancelled":
+      await cancel(actionContext);
+      break;
+    case "skipped":
+      await skip(actionContext);
+      break;
+    default:
+      await failure(actionContext);
+  }
+}
+
+/**
+ * Reads the build state of each deploy target from an existing report. If the report
+ * can't be parsed (for example, because the comment was edited by hand), salvages
+ * whatever build entries do parse into the current target, logging the ones that
+ * don't, and optionally archives the original body so that it can be included in the
+ * rewritten report.
+ * @param report - Existing report (such as the action comment)
+ * @param actionContext - Base action context
+ */
+function readState(
+  report: Report,
+  actionContext: ActionContext,
+): [CommentState, string | Nil] {
+  try {
+    return [getCommentState(report.body), null];
+  } catch (err) {
+    core.warning(
+      `Unable to parse existing report ${report.id} (${err.message}); recovering salvageable build entries`,
+    );
+  }
+
+  const { entries, invalidRows } = salvageBuildState(report.body);
+  for (const row of invalidRows) {
+    core.warning(`Discarding unparseable build entry: ${row}`);
+  }
+  core.info(
+    `Salvaged ${entries.length} build entries from report ${report.id}`,
+  );
+
+  const archive = actionContext.archiveCorrupted
+    ? archiveBody(report.body)
+    : null;
+  if (entries.length === 0) return [{ targets: {} }, archive];
+  const state = { latest: entries[0], previous: entries.slice(1) };
+  return [{ targets: { [actionContext.target]: state } }, archive];
+}
+
+/**
+ * Merges the build state of each deploy target from another report (such as a
+ * duplicate comment) into the given state, mutating it. Entries for commits that the
+ * state already has are kept as-is, while any other entries are added to the history
+ * @param commentState - Build state of each deploy target to merge into
+ * @param other - Build state of each deploy target to merge from
+ */
+function mergeCommentStates(
+  commentState: CommentState,
+  other: CommentState,
+): void {
+  for (const [target, otherState] of Object.entries(other.targets)) {
+    const state = commentState.targets[target];
+    if (state == null) {
+      commentState.targets[target] = otherState;
+      continue;
+    }
+
+    const known = new Set(
+      [state.latest, ...state.previous].map((entry) => entry.commitSha),
+    );
+    for (const entry of [otherState.latest, ...otherState.previous]) {
+      if (!known.has(entry.commitSha)) {
+        known.add(entry.commitSha);
+        state.previous.push(entry);
+      }
+    }
   }
 }
 
 /**
  * Performs the update logic, modifying the given build state and returning the new one
- * (might mutate the old state object). If the comment exists and the function can find
- * a matching entry in the comment, it updates the entry. Otherwise, adds a new entry as
+ * (might mutate the old state object). If the target's state exists and the function
+ * can find a matching entry in it, it updates the entry. Otherwise, adds a new entry as
  * the latest one (pushing all other entries down if they exist).
  * @param current - Current build entry (might not be latest)
- * @param comment - Action comment
+ * @param existing - Existing build state of the current deploy target, if any
  * @param actionContext - Base action context
  */
 function updateState(
   current: BuildEntry,
-  comment: Comment | Nil,
+  existing: BuildState | Nil,
   actionContext: ActionContext,
 ): BuildState {
   const { shortSha } = actionContext;
+
   let state: BuildState;
-  if (comment != null) {
-    state = getBuildState(comment.body);
+  if (existing != null) {
+    state = existing;
 
     // If the latest entry is the current one, then update the latest
     if (state.latest.commitSha === shortSha) {
       state.latest = current;
     } else {
-      // Try to find the entry in the list of previous entries
+      // Try to find the entry in the list of previous entries (replacing it rather
+      // than merging into it, so that stale optional fields don't carry over)
       let patched = false;
-      for (const entry of state.previous) {
-        if (entry.commitSha === shortSha) {
-          patched = true;
-          Object.assign(entry, current);
-        }
-      }
+      state.previous = state.previous.map((entry) => {
+        if (entry.commitSha !== shortSha) return entry;
+        patched = true;
+        return current;
+      });
 
-      // If the entry still wasn't found, then add it to the latest
-      if (!patched) {
+      // If the entry still wasn't found and it's outdated, then add it below the latest
+      // (which is either for a newer commit or will be replaced by one)
+      if (!patched && current.outdated) {
+        state.previous = [current, ...state.previous];
+      } else if (!patched) {
+        // Otherwise, add it as the latest
         const previousLatest = state.latest;
         state = {
+          ...state,
           previous: [previousLatest, ...state.previous],
           latest: current,
         };
+
+        // Any older builds that are still in-progress have been superseded by this one
+        if (current.status === BuildStatus.InProgress) {
+          for (const entry of state.previous) {
+            if (entry.status === BuildStatus.InProgress) {
+              entry.emoji = BuildEmoji.Superseded;
+              entry.status = BuildStatus.Superseded;
+            }
+          }
+        }
       }
     }
   } else {
@@ -336,9 +491,226 @@ function updateState(
     };
   }
 
+  // A new build means that the PR has been reopened if it was closed
+  delete state.removed;
   return state;
 }
 
+/**
+ * Marks every entry in the build state as retired after the PR is closed or merged,
+ * returning the new state (might mutate the old state object)
+ * @param state - Build state of the current deploy target
+ * @param reason - Whether the PR was merged or just closed
+ */
+function retireState(
+  state: BuildState,
+  reason: "merged" | "closed",
+): BuildState {
+  for (const entry of [state.latest, ...state.previous]) {
+    entry.retired = true;
+  }
+  return { ...state, removed: reason };
+}
+
+/**
+ * Updates the build state of the current deploy target, returning null if there is
+ * nothing to update
+ */
+type StateUpdate = (existing: BuildState | Nil) => BuildState | null;
+
+/**
+ * Determines whether a report has no duplicates left to merge, and includes a build
+ * state for the current deploy target that satisfies the given check
+ * @param report - Report that was just read back
+ * @param isApplied - Checks whether the update was applied to the target's state
+ * @param actionContext - Base action context
+ */
+function isPublished(
+  report: Report | Nil,
+  isApplied: (state: BuildState) => boolean,
+  actionContext: ActionContext,
+): boolean {
+  if (report == null || (report.duplicates ?? []).length > 0) return false;
+  let state: BuildState | Nil;
+  try {
+    state = getCommentState(report.body).targets[actionContext.target];
+  } catch (err) {
+    return false;
+  }
+  return state != null && isApplied(state);
+}
+
+/**
+ * Publishes the given build entry to the report, comparing it against the previous
+ * successful build and the given baselines. Returns the entry as it was published,
+ * along with the target's build entries from before it was published (latest first)
+ * @param current - Current build entry
+ * @param kind - Kind of comment template for the current build status
+ * @param actionContext - Base action context
+ * @param baselines - Other builds to compare the entry against
+ */
+async function publish(
+  current: BuildEntry,
+  kind: keyof Templates,
+  actionContext: ActionContext,
+  baselines: Baseline[] = [],
+): Promise<[BuildEntry, BuildEntry[]]> {
+  const { outdated, shortSha, buildTime, trends } = actionContext;
+  let entry: BuildEntry = {
+    ...current,
+    ...(outdated ? { outdated } : {}),
+    ...(!isNaN(buildTime.getTime())
+      ? { builtAt: buildTime.toISOString() }
+      : {}),
+  };
+  let before: BuildEntry[] = [];
+  await updateReport(
+    kind,
+    (existing) => {
+      // Copied, since updating the state can mutate its entries
+      before =
+        existing != null
+          ? [existing.latest, ...existing.previous].map((other) => ({
+              ...other,
+            }))
+          : [];
+      entry = withTrends(entry, existing, baselines, trends);
+      return updateState(entry, existing, actionContext);
+    },
+    (state) =>
+      [state.latest, ...state.previous].some(
+        (other) =>
+          other.commitSha === entry.commitSha &&
+          other.status === entry.status &&
+          other.runLink === entry.runLink,
+      ),
+    `the build entry for ${shortSha}`,
+    actionContext,
+  );
+  return [entry, before];
+}
+
+/**
+ * Applies an update to the build state of the current deploy target in the report.
+ * Since reports can't be updated atomically, the report is read back after writing it,
+ * and if another run changed it in between (dropping the update) or created a duplicate
+ * of it, the update is retried with a jittered delay
+ * @param kind - Kind of comment template for the current target, or null to choose it
+ * based on the status of the target's latest build
+ * @param update - Updates the build state of the current target
+ * @param isApplied - Checks whether the update was applied to the target's state
+ * @param description - Description of the update, used in log messages
+ * @param actionContext - Base action context
+ */
+async function updateReport(
+  kind: keyof Templates | null,
+  update: StateUpdate,
+  isApplied: (state: BuildState) => boolean,
+  description: string,
+  actionContext: ActionContext,
+): Promise<void> {
+  const { reporter } = actionContext;
+  for (let attempt = 1; attempt <= MAX_PUBLISH_ATTEMPTS; attempt++) {
+    const report = await reporter.find(actionContext);
+    const wrote = await writeReport(kind, report, update, actionContext);
+    if (!wrote) return;
+
+    const written = await reporter.find(actionContext);
+    if (isPublished(written, isApplied, actionContext)) return;
+    if (attempt < MAX_PUBLISH_ATTEMPTS) {
+      const delay = PUBLISH_RETRY_DELAY * attempt * (0.5 + Math.random());
+      core.info(
+        `Report was changed by another run while updating it; retrying in ${Math.round(
+          delay,
+        )}ms`,
+      );
+      await actionContext.clock.sleep(delay);
+    }
+  }
+  core.warning(
+    `Unable to confirm that ${description} was published after ${MAX_PUBLISH_ATTEMPTS} attempts; it might have been overwritten by another run`,
+  );
+}
+
+/**
+ * Updates the build state of the current deploy target (reconciling any stale entries
+ * from other runs, and merging in any duplicate reports), and writes it back using the
+ * given template. The other targets sharing the report are carried over from the
+ * report as they were just read, and re-rendered using the template for the status of
+ * their latest build. Returns false if there was nothing to update
+ * @param kind - Kind of comment template for the current target, or null to choose it
+ * based on the status of the target's latest build
+ * @param report - Existing report, if any
+ * @param update - Updates the build state of the current target
+ * @param actionContext - Base action context
+ */
+async function writeReport(
+  kind: keyof Templates | null,
+  report: Report | Nil,
+  update: StateUpdate,
+  actionContext: ActionContext,
+): Promise<boolean> {
+  const {
+    prId,
+    stagingUrl: url,
+    reporter,
+    retention,
+    templates,
+    shortSha,
+    tag,
+    target,
+  } = actionContext;
+  const [commentState, archive]: [CommentState, string | Nil] =
+    report != null ? readState(report, actionContext) : [{ targets: {} }, null];
+  for (const duplicate of report?.duplicates ?? []) {
+    mergeCommentStates(commentState, readState(duplicate, actionContext)[0]);
+  }
+
+  const state = update(commentState.targets[target]);
+  if (state == null) return false;
+  if (archive != null) state.archive = archive;
+  state.url = url;
+  await reconcileState(state, actionContext);
+  commentState.targets[target] = state;
+  // Report the status of the entry for the current commit if there is one
+  const entry = [state.latest, ...state.previous].find(
+    (other) => other.commitSha === shortSha,
+  );
+  const now = actionContext.clock.now();
+  for (const targetState of Object.values(commentState.targets)) {
+    pruneState(targetState, retention, now, entry);
+  }
+
+  const render = (): string =>
+    renderComment(
+      tag,
+      commentState,
+      Object.entries(commentState.targets).map(([name, targetState]) => {
+        const template =
+          name === target && kind != null
+            ? templates[kind]
+            : templates[templateKind(targetState)];
+        return template({
+          prId: prId.toString(),
+          url: targetState.url ?? url,
+          state: targetState,
+          tag,
+          target: name,
+        });
+      }),
+    );
+  const current = entry ?? state.latest;
+  const written = await reporter.write(
+    renderWithinLimit(commentState, render, entry),
+    commentState,
+    current,
+    report,
+    actionContext,
+  );
+  setReportOutputs(written, state, current, actionContext);
+  return true;
+}
+
 /**
  * Builds a GitHub permanent run link to the given runId
  * @param repo - Aggregate GitHub repo object
@@ -358,22 +730,30 @@ function buildCommitLink(actionContext: ActionContext): string {
 }
 
 /**
- * Gets the initial comment state, printing a message to the console if it exists
+ * Executes the primary logic for a PR from an untrusted fork, adding an entry noting
+ * that the deploy preview needs approval instead of building it
  * @param actionContext - Base action context
+ * @param trust - Trust decision for the PR
  */
-async function getInitialComment(
+async function requireApproval(
   actionContext: ActionContext,
-): Promise<Comment | Nil> {
-  const { prId, repo, tag, octokit } = actionContext;
-  const comment = await getActionComment(octokit, prId, repo, tag);
-  if (comment != null) {
-    core.debug(
-      `Found existing CI comment ${comment.id} by ${comment.user.login} on PR ${prId}`,
-    );
-  } else {
-    core.debug(`Found no existing CI comment on PR ${prId}`);
-  }
-  return comment;
+  trust: TrustDecision,
+): Promise<void> {
+  const { shortSha, buildTime, runLink } = actionContext;
+
+  const current: BuildEntry = {
+    emoji: BuildEmoji.AwaitingApproval,
+    status: BuildStatus.AwaitingApproval,
+    deployUrl: null,
+    commitSha: shortSha,
+    commitLink: buildCommitLink(actionContext),
+    buildTime: date(buildTime, actionContext.env.TIME_ZONE),
+    buildDuration: null,
+    runLink,
+    error: trust.reason,
+  };
+
+  await publish(current, "approvalRequired", actionContext);
 }
 
 /**
@@ -382,15 +762,7 @@ async function getInitialComment(
  * @param actionContext - Base action context
  */
 async function pre(actionContext: ActionContext): Promise<void> {
-  const {
-    prId,
-    stagingUrl: url,
-    shortSha,
-    buildTime,
-    runLink,
-    commitUrl,
-    tag,
-  } = actionContext;
+  const { shortSha, buildTime, runLink, commitUrl } = actionContext;
 
   const current: BuildEntry = {
     emoji: BuildEmoji.InProgress,
@@ -398,18 +770,13 @@ async function pre(actionContext: ActionContext): Promise<void> {
     deployUrl: commitUrl,
     commitSha: shortSha,
     commitLink: buildCommitLink(actionContext),
-    buildTime: date(buildTime),
+    buildTime: date(buildTime, actionContext.env.TIME_ZONE),
     buildDuration: null,
     runLink,
   };
 
-  const comment = await getInitialComment(actionContext);
-  const state = updateState(current, comment, actionContext);
-  await patchComment(
-    building({ prId: prId.toString(), state, url, tag }),
-    comment,
-    actionContext,
-  );
+  await publish(current, "building", actionContext);
+  await updateDeployment(actionContext, "in_progress");
 }
 
 /**
@@ -420,94 +787,239 @@ async function pre(actionContext: ActionContext): Promise<void> {
  */
 async function post(actionContext: ActionContext): Promise<void> {
   const {
-    prId,
-    stagingUrl: url,
     shortSha,
     buildTime,
     buildDuration,
     runLink,
     commitUrl,
-    octokit,
-    repo,
-    tag,
+    trends,
   } = actionContext;
 
+  const size =
+    trends.manifest != null
+      ? readManifestSize(trends.manifest, actionContext.env)
+      : null;
   const current: BuildEntry = {
     emoji: BuildEmoji.Success,
     status: BuildStatus.Success,
     deployUrl: commitUrl,
     commitSha: shortSha,
     commitLink: buildCommitLink(actionContext),
-    buildTime: date(buildTime),
+    buildTime: date(buildTime, actionContext.env.TIME_ZONE),
     buildDuration: buildDuration != null ? duration(buildDuration) : null,
     runLink,
+    ...(buildDuration != null ? { durationSeconds: buildDuration } : {}),
+    ...(size != null ? { size } : {}),
   };
 
-  let comment = await getInitialComment(actionContext);
-  const state = updateState(current, comment, actionContext);
-  await patchComment(
-    successful({ prId: prId.toString(), state, url, tag }),
-    comment,
+  const baselines: Baseline[] = [];
+  if (trends.compareBase) {
+    const baseline = await getBaseBaseline(actionContext);
+    if (baseline != null) baselines.push(baseline);
+  }
+  const [published, before] = await publish(
+    current,
+    "successful",
     actionContext,
+    baselines,
   );
 
-  // On post, wait 2 minutes and verify that the commit link exists
-  await new Promise((resolve) => setTimeout(resolve, 2000 * 60));
-  let isError = false;
-  try {
-    await got(commitUrl);
-  } catch (err) {
-    isError = true;
-  }
-
-  if (isError) {
-    // Update the comment to remove the commit deploy URL
-    comment = await getActionComment(octokit, prId, repo, tag);
-    const newState = updateState(
-      { ...current, deployUrl: null },
-      comment,
-      actionContext,
-    );
-    await patchComment(
-      successful({ prId: prId.toString(), state: newState, url, tag }),
-      comment,
+  // On post, wait for the deploy and verify that the commit link exists, leaving the
+  // deployment in progress until then so that it never points to a missing preview
+  const result = await verifyDeploy(actionContext);
+  if (!result.success) {
+    // Update the report to mark the deploy as unreachable
+    const newCurrent: BuildEntry = {
+      ...current,
+      emoji: BuildEmoji.Unreachable,
+      status: BuildStatus.Unreachable,
+      error: result.message,
+    };
+    const [unreachable] = await publish(
+      newCurrent,
+      "unreachable",
       actionContext,
+      baselines,
     );
+    await updateDeployment(actionContext, "error");
+    await notify(buildEvents(unreachable, before), unreachable, actionContext);
+  } else {
+    await updateDeployment(actionContext, "success");
+    await notify(buildEvents(published, before), published, actionContext);
   }
+
+  if (
+    published.emoji === BuildEmoji.Regressed &&
+    trends.onRegression === "fail"
+  )
+    throw new Error(
+      `Build of ${shortSha} went over the duration or size thresholds; see the trends in the report for details`,
+    );
 }
 
 /**
- * Executes the primary logic after a failed build, finding the corresponding build
- * entry if it exists and updating it, else creates a new entry at at the top and pushes
- * all previous build entries to the bottom section if they exist.
+ * Executes the primary logic after a build that didn't succeed, finding the
+ * corresponding build entry if it exists and updating it, else creates a new entry at
+ * the top and pushes all previous build entries to the bottom section if they exist.
  * @param actionContext - Base action context
+ * @param emoji - Build status emoji for the entry
+ * @param status - Build status for the entry
+ * @param kind - Kind of comment template for the build status
+ * @param deploymentState - Deployment status state for the build status
  */
-async function failure(actionContext: ActionContext): Promise<void> {
-  const {
-    prId,
-    stagingUrl: url,
-    shortSha,
-    buildTime,
-    runLink,
-    tag,
-  } = actionContext;
+async function unsuccessful(
+  actionContext: ActionContext,
+  emoji: BuildEmoji,
+  status: BuildStatus,
+  kind: keyof Templates,
+  deploymentState: DeploymentState,
+): Promise<void> {
+  const { shortSha, buildTime, runLink } = actionContext;
 
   const current: BuildEntry = {
-    emoji: BuildEmoji.Failure,
-    status: BuildStatus.Failure,
+    emoji,
+    status,
     deployUrl: null,
     commitSha: shortSha,
     commitLink: buildCommitLink(actionContext),
-    buildTime: date(buildTime),
+    buildTime: date(buildTime, actionContext.env.TIME_ZONE),
     buildDuration: null,
     runLink,
   };
 
-  const comment = await getInitialComment(actionContext);
-  const state = updateState(current, comment, actionContext);
-  await patchComment(
-    failed({ prId: prId.toString(), state, url, tag }),
-    comment,
+  const [published, before] = await publish(current, kind, actionContext);
+  await updateDeployment(actionContext, deploymentState);
+  await notify(buildEvents(published, before), published, actionContext);
+}
+
+/**
+ * Executes the primary logic after a failed build
+ * @param actionContext - Base action context
+ */
+async function failure(actionContext: ActionContext): Promise<void> {
+  await unsuccessful(
+    actionContext,
+    BuildEmoji.Failure,
+    BuildStatus.Failure,
+    "failed",
+    "failure",
+  );
+}
+
+/**
+ * Executes the primary logic after a cancelled build
+ * @param actionContext - Base action context
+ */
+async function cancel(actionContext: ActionContext): Promise<void> {
+  await unsuccessful(
+    actionContext,
+    BuildEmoji.Cancelled,
+    BuildStatus.Cancelled,
+    "cancelled",
+    "inactive",
+  );
+}
+
+/**
+ * Executes the primary logic after a skipped build
+ * @param actionContext - Base action context
+ */
+async function skip(actionContext: ActionContext): Promise<void> {
+  await unsuccessful(
+    actionContext,
+    BuildEmoji.Skipped,
+    BuildStatus.Skipped,
+    "skipped",
+    "inactive",
+  );
+}
+
+/**
+ * Executes the primary logic after a PR is closed or merged, removing its deploy preview
+ * from the staging server (if enabled) and marking every build entry as retired. If the
+ * PR is reopened, the next build picks the history back up
+ * @param actionContext - Base action context
+ */
+async function closed(actionContext: ActionContext): Promise<void> {
+  const { octokit, prId, repo, teardownUrl } = actionContext;
+  const pr = await getPullRequest(octokit, prId, repo);
+  const reason = pr.merged ? "merged" : "closed";
+  if (teardownUrl != null)
+    await teardownPreview(teardownUrl, actionContext.http);
+
+  let removed: BuildEntry | Nil;
+  await updateReport(
+    "removed",
+    (existing) => {
+      if (existing == null) return null;
+      removed = existing.latest;
+      return retireState(existing, reason);
+    },
+    (state) => state.removed === reason,
+    "the removed deploy preview",
+    actionContext,
+  );
+  await deactivateDeployments(actionContext);
+  if (removed != null) await notify(["removed"], removed, actionContext);
+}
+
+/**
+ * Reads the result to attach to the current build entry from the action inputs,
+ * throwing an Exception if it is missing a name
+ * @param inputs - Source of the action inputs
+ */
+function getResult(inputs: Inputs): BuildResult {
+  const name = inputs.get("result-name").trim();
+  const value = inputs.get("result-value").trim();
+  const link = inputs.get("result-link").trim();
+  if (name === "")
+    throw new Error(`Input "result-name" is required in the "annotate" mode`);
+  return { name, value, link: link !== "" ? link : null };
+}
+
+/**
+ * Executes the primary logic for a later workflow step attaching a result (such as a
+ * Lighthouse score) to the build entry for the current commit, replacing any previous
+ * result with the same name. Does nothing if the commit doesn't have an entry yet
+ * @param actionContext - Base action context
+ * @param result - Result to attach
+ */
+async function annotate(
+  actionContext: ActionContext,
+  result: BuildResult,
+): Promise<void> {
+  const { shortSha } = actionContext;
+  const findEntry = (state: BuildState | Nil): BuildEntry | Nil =>
+    state != null
+      ? [state.latest, ...state.previous].find(
+          (entry) => entry.commitSha === shortSha,
+        )
+      : null;
+
+  await updateReport(
+    null,
+    (existing) => {
+      const entry = findEntry(existing);
+      if (existing == null || entry == null) {
+        core.warning(
+          `No build entry found for ${shortSha}; skipping the ${result.name} result`,
+        );
+        return null;
+      }
+
+      // Patched in place rather than with `updateState`, so that the results of a
+      // closed PR's builds don't mark it as reopened
+      const results = (entry.results ?? []).filter(
+        ({ name }) => name !== result.name,
+      );
+      entry.results = [...results, result];
+      return existing;
+    },
+    (state) =>
+      (findEntry(state)?.results ?? []).some(
+        ({ name, value }) => name === result.name && value === result.value,
+      ),
+    `the ${result.name} result for ${shortSha}`,
     actionContext,
   );
 }
@@ -0,0 +1,271 @@
+import * as core from "@actions/core";
+import { Inputs } from "./inputs";
+import { statusName } from "./outputs";
+import { BuildEntry, BuildStatus } from "./templates";
+import { ActionContext } from "./types";
+
+/**
+ * Deploy preview state changes that can be notified about
+ */
+export type NotificationEvent =
+  | "success"
+  | "first-success"
+  | "failure"
+  | "unreachable"
+  | "removed";
+
+const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  "success",
+  "first-success",
+  "failure",
+  "unreachable",
+  "removed",
+];
+
+/**
+ * Format of the message that a webhook expects
+ */
+type WebhookKind = "slack" | "discord" | "json";
+
+/**
+ * Webhook that notifications are sent to
+ */
+interface Webhook {
+  kind: WebhookKind;
+  url: string;
+}
+
+/**
+ * Options for sending notifications about deploy preview state changes
+ */
+export interface NotifyOptions {
+  webhooks: Webhook[];
+  events: NotificationEvent[];
+}
+
+/**
+ * Notification about a deploy preview state change
+ */
+interface Notification {
+  event: NotificationEvent;
+  title: string;
+  entry: BuildEntry;
+}
+
+// Discord rejects embeds with longer field values
+const MAX_DISCORD_FIELD_LENGTH = 1024;
+// Sidebar colors of Discord embeds for each event
+const DISCORD_COLORS: Record<NotificationEvent, number> = {
+  success: 0x2da44e,
+  "first-success": 0x2da44e,
+  failure: 0xcf222e,
+  unreachable: 0xbf8700,
+  removed: 0x6e7781,
+};
+
+/**
+ * Reads the notification options from the action inputs, throwing an Exception if any
+ * of the events to notify about are unknown
+ * @param inputs - Source of the action inputs
+ */
+export function getNotifyOptions(inputs: Inputs): NotifyOptions {
+  const webhooks: Webhook[] = [];
+  const addWebhook = (kind: WebhookKind, name: string): void => {
+    const url = inputs.get(name).trim();
+    if (url !== "") webhooks.push({ kind, url });
+  };
+  addWebhook("slack", "notify-slack-webhook");
+  addWebhook("discord", "notify-discord-webhook");
+  addWebhook("json", "notify-webhook");
+
+  const events = inputs
+    .get("notify-on")
+    .split(",")
+    .map((event) => event.trim())
+    .filter((event) => event.length > 0);
+  for (const event of events) {
+    if (!NOTIFICATION_EVENTS.includes(event as NotificationEvent))
+      throw new Error(
+        `Unknown notification event "${event}" in input "notify-on"; expected one of ${NOTIFICATION_EVENTS.join(
+          ", ",
+        )}`,
+      );
+  }
+  return { webhooks, events: events as NotificationEvent[] };
+}
+
+/**
+ * Determines which events a newly published build entry causes (most specific first),
+ * based on the build entries the target had before it was published. Failures are only
+ * notified about when the previous build didn't also fail, so that a broken PR doesn't
+ * keep pinging
+ * @param current - Build entry that was just published
+ * @param before - Build entries of the target before publishing, latest first
+ */
+export function buildEvents(
+  current: BuildEntry,
+  before: BuildEntry[],
+): NotificationEvent[] {
+  const others = before.filter(
+    (entry) => entry.commitSha !== current.commitSha,
+  );
+  switch (current.status) {
+    case BuildStatus.Success:
+      return others.some((entry) => entry.status === BuildStatus.Success)
+        ? ["success"]
+        : ["first-success", "success"];
+    case BuildStatus.Failure:
+      return others[0]?.status !== BuildStatus.Failure ? ["failure"] : [];
+    case BuildStatus.Unreachable:
+      return ["unreachable"];
+  }
+  return [];
+}
+
+/**
+ * Gets the title of the notification for an event
+ * @param event - Event to notify about
+ * @param actionContext - Base action context
+ */
+function title(event: NotificationEvent, actionContext: ActionContext): string {
+  const { repo, prId, tag, target } = actionContext;
+  const scope = [tag, target].filter((part) => part != null && part !== "");
+  const preview = `Deploy preview${
+    scope.length > 0 ? ` (${scope.join(", ")})` : ""
+  } for ${repo.owner}/${repo.repo}#${prId}`;
+  switch (event) {
+    case "success":
+      return `${preview} is ready`;
+    case "first-success":
+      return `${preview} is ready for the first time`;
+    case "failure":
+      return `${preview} failed to build`;
+    case "unreachable":
+      return `${preview} was deployed, but is unreachable`;
+    case "removed":
+      return `${preview} was removed`;
+  }
+}
+
+/**
+ * Gets the lines of the notification body as label/value pairs
+ * @param notification - Notification to send
+ * @param actionContext - Base action context
+ */
+function fields(
+  notification: Notification,
+  actionContext: ActionContext,
+): [string, string][] {
+  const { entry } = notification;
+  const lines: [string, string][] = [
+    ["PR", `#${actionContext.prId}`],
+    ["Commit", entry.commitSha],
+    ["Preview", actionContext.stagingUrl],
+    ["Run", entry.runLink],
+  ];
+  if (entry.buildDuration != null)
+    lines.push(["Duration", entry.buildDuration]);
+  // The error of the last build is no longer relevant once the preview is removed
+  if (
+    notification.event !== "removed" &&
+    entry.error != null &&
+    entry.error !== ""
+  )
+    lines.push(["Error", entry.error]);
+  return lines;
+}
+
+/**
+ * Builds the request body for a webhook
+ * @param kind - Format of the message that the webhook expects
+ * @param notification - Notification to send
+ * @param actionContext - Base action context
+ */
+function payload(
+  kind: WebhookKind,
+  notification: Notification,
+  actionContext: ActionContext,
+): object {
+  const { event, entry } = notification;
+  const lines = fields(notification, actionContext);
+  switch (kind) {
+    case "slack":
+      return {
+        text: [
+          `*${notification.title}*`,
+          ...lines.map(([label, value]) => `${label}: ${value}`),
+        ].join("\n"),
+      };
+    case "discord":
+      return {
+        embeds: [
+          {
+            title: notification.title,
+            url: actionContext.stagingUrl,
+            color: DISCORD_COLORS[event],
+            fields: lines.map(([name, value]) => ({
+              name,
+              value: value.slice(0, MAX_DISCORD_FIELD_LENGTH),
+              inline: name !== "Error",
+            })),
+          },
+        ],
+      };
+    case "json":
+      return {
+        event,
+        title: notification.title,
+        repository: `${actionContext.repo.owner}/${actionContext.repo.repo}`,
+        prId: actionContext.prId,
+        sha: actionContext.sha,
+        tag: actionContext.tag ?? null,
+        target: actionContext.target,
+        stagingUrl: actionContext.stagingUrl,
+        commitUrl: actionContext.commitUrl,
+        runLink: entry.runLink,
+        status: statusName(entry.status),
+        buildDuration: entry.buildDuration,
+        durationSeconds: entry.durationSeconds ?? null,
+        error: entry.error ?? null,
+      };
+  }
+}
+
+/**
+ * Sends a notification about the first of the given events that is enabled to each
+ * configured webhook, so that a single state change only pings once. Failures are
+ * logged rather than thrown, so that a broken webhook doesn't fail the build
+ * @param events - Events that happened, most specific first
+ * @param entry - Build entry that the events are about
+ * @param actionContext - Base action context
+ */
+export async function notify(
+  events: NotificationEvent[],
+  entry: BuildEntry,
+  actionContext: ActionContext,
+): Promise<void> {
+  const { webhooks, events: enabled } = actionContext.notify;
+  if (webhooks.length === 0) return;
+
+  const event = events.find((other) => enabled.includes(other));
+  if (event == null) {
+    if (events.length > 0)
+      core.debug(`Not notifying about ${events.join(", ")}; not enabled`);
+    return;
+  }
+
+  const notification = { event, title: title(event, actionContext), entry };
+  for (const { kind, url } of webhooks) {
+    try {
+      await actionContext.http.post(
+        url,
+        payload(kind, notification, actionContext),
+      );
+      core.info(`Sent ${event} notification to the ${kind} webhook`);
+    } catch (err) {
+      core.warning(
+        `Unable to send ${event} notification to the ${kind} webhook: ${err.message}`,
+      );
+    }
+  }
+}
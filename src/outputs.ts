@@ -0,0 +1,109 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import { BuildEntry, BuildState, BuildStatus } from "./templates";
+import { WrittenReport } from "./reporters";
+import { ActionContext } from "./types";
+import { workspacePath } from "./inputs";
+
+/**
+ * Gets a machine-readable name for a build status, for use in outputs and notifications
+ * @param status - Build status
+ */
+export function statusName(status: BuildStatus): string {
+  switch (status) {
+    case BuildStatus.InProgress:
+      return "in-progress";
+    case BuildStatus.Success:
+      return "success";
+    case BuildStatus.Failure:
+      return "failure";
+    case BuildStatus.Unreachable:
+      return "unreachable";
+    case BuildStatus.Cancelled:
+      return "cancelled";
+    case BuildStatus.Skipped:
+      return "skipped";
+    case BuildStatus.Superseded:
+      return "superseded";
+    case BuildStatus.TimedOut:
+      return "timed-out";
+    case BuildStatus.AwaitingApproval:
+      return "awaiting-approval";
+  }
+}
+
+/**
+ * Finds the most recent successful deploy preview of another commit that is still
+ * available, or null if there isn't one
+ * @param state - Build state of the current deploy target
+ * @param current - Current build entry
+ */
+function previousDeployUrl(
+  state: BuildState,
+  current: BuildEntry,
+): string | null {
+  const previous = [state.latest, ...state.previous].find(
+    (entry) =>
+      entry.commitSha !== current.commitSha &&
+      entry.status === BuildStatus.Success &&
+      entry.deployUrl != null &&
+      !entry.expired &&
+      !entry.retired,
+  );
+  return previous?.deployUrl ?? null;
+}
+
+/**
+ * Renders the build report for the job summary
+ * @param json - Build report as JSON
+ */
+const summary = (json: string): string => `
+### Deploy preview report
+
+\`\`\`json
+${json}
+\`\`\`
+`;
+
+/**
+ * Sets the outputs describing the report that was just written, and writes the build
+ * state as a JSON report to the report file and job summary if enabled
+ * @param written - Location of the written report
+ * @param state - Build state of the current deploy target
+ * @param current - Current build entry
+ * @param actionContext - Base action context
+ */
+export function setReportOutputs(
+  written: WrittenReport,
+  state: BuildState,
+  current: BuildEntry,
+  actionContext: ActionContext,
+): void {
+  const { reportFile, reportSummary } = actionContext;
+  const json = JSON.stringify(state, null, 2);
+  core.setOutput("commentId", written.id);
+  core.setOutput("commentUrl", written.url);
+  core.setOutput(
+    "status",
+    state.removed != null ? "removed" : statusName(current.status),
+  );
+  core.setOutput("previousDeployUrl", previousDeployUrl(state, current) ?? "");
+  core.setOutput("report", JSON.stringify(state));
+
+  if (reportFile != null) {
+    const fullPath = workspacePath(reportFile, actionContext.env);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, json);
+    core.debug(`Wrote build report to ${fullPath}`);
+  }
+
+  // The summary file is specific to the current step, so it's overwritten rather than
+  // appended to, in case the report is written more than once
+  const summaryFile = actionContext.env.GITHUB_STEP_SUMMARY;
+  if (reportSummary && summaryFile != null && summaryFile !== "") {
+    fs.writeFileSync(summaryFile, summary(json));
+  } else if (reportSummary) {
+    core.warning("Job summaries aren't supported by this runner");
+  }
+}
@@ -0,0 +1,97 @@
+import * as core from "@actions/core";
+import { GitHub } from "@actions/github";
+import { Inputs } from "./inputs";
+import { Comment } from "./types";
+
+// Allows comments by any author, relying only on the hidden tag
+const ANY_AUTHOR = "*";
+// Author of comments written with the default GITHUB_TOKEN
+const GITHUB_ACTIONS_BOT = "github-actions[bot]";
+
+/**
+ * Policy for which authors' comments are considered to have been written by the action
+ */
+export interface OwnershipPolicy {
+  // Logins of the allowed authors, or null to identify the author from the token
+  authors: string[] | null;
+}
+
+/**
+ * Checks whether a comment was written by the action
+ */
+export type CommentOwner = (comment: Comment) => boolean;
+
+/**
+ * Reads the comment ownership policy from the action inputs
+ * @param inputs - Source of the action inputs
+ */
+export function getOwnershipPolicy(inputs: Inputs): OwnershipPolicy {
+  const authors = inputs
+    .get("comment-authors")
+    .split(",")
+    .map((author) => author.trim().toLowerCase())
+    .filter((author) => author.length > 0);
+  return { authors: authors.length > 0 ? authors : null };
+}
+
+/**
+ * Gets the login of the bot user that a GitHub App installation token comments as, or
+ * null if the token isn't allowed to look up its app
+ * @param octokit - Current Octokit GitHub API binding instance
+ */
+async function getAppBotLogin(octokit: GitHub): Promise<string | null> {
+  try {
+    const { data: app } = await octokit.apps.getAuthenticated();
+    return `${app.slug}[bot]`;
+  } catch (err) {
+    if (err.status !== 401 && err.status !== 403) throw err;
+    core.debug(`Unable to get the authenticated app (${err.message})`);
+    return null;
+  }
+}
+
+/**
+ * Resolves which comments were written by the action. Given an allow-list of authors,
+ * only their comments are matched (or any comment, if the list includes `*`).
+ * Otherwise, the authenticated user is looked up for personal access tokens, while
+ * tokens that aren't users can't look up their own login, so their app's bot user is
+ * looked up instead. If that isn't allowed either, the token is assumed to be the
+ * default `GITHUB_TOKEN` (commenting as `github-actions[bot]`)
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param policy - Comment ownership policy
+ */
+export async function resolveCommentOwner(
+  octokit: GitHub,
+  policy: OwnershipPolicy,
+): Promise<CommentOwner> {
+  const { authors } = policy;
+  if (authors != null) {
+    if (authors.includes(ANY_AUTHOR)) {
+      core.debug(`Matching CI comments by any author`);
+      return (): boolean => true;
+    }
+    core.debug(`Matching CI comments by ${authors.join(", ")}`);
+    return (comment): boolean =>
+      authors.includes(comment.user.login.toLowerCase());
+  }
+
+  try {
+    const { data: thisUser } = await octokit.users.getAuthenticated();
+    core.debug(`Matching CI comments by ${thisUser.login}`);
+    return (comment): boolean => comment.user.id === thisUser.id;
+  } catch (err) {
+    // Tokens that aren't users are forbidden from looking themselves up
+    if (err.status !== 403) throw err;
+    core.debug(`Unable to get the authenticated user (${err.message})`);
+  }
+
+  const appBot = await getAppBotLogin(octokit);
+  if (appBot != null) {
+    core.debug(`Matching CI comments by ${appBot}`);
+    return (comment): boolean => comment.user.login === appBot;
+  }
+  core.info(
+    `Unable to identify the token's user or app; matching CI comments by ${GITHUB_ACTIONS_BOT} (set "comment-authors" if the token belongs to another GitHub App)`,
+  );
+  return (comment): boolean => comment.user.login === GITHUB_ACTIONS_BOT;
+}
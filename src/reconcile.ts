@@ -0,0 +1,157 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import {
+  ActionsGetWorkflowJobResponseData,
+  ActionsGetWorkflowRunResponseData,
+} from "@octokit/types";
+import { BuildEntry, BuildEmoji, BuildState, BuildStatus } from "./templates";
+import { ActionContext, Nil } from "./types";
+
+/**
+ * Status of the workflow run (or job) that a build entry links to
+ */
+interface RunStatus {
+  status: string;
+  conclusion: string | Nil;
+  startedAt: string;
+}
+
+// Job links are either `/actions/runs/<run>/jobs/<job>` or legacy `/runs/<job>` links
+const JOB_LINK_REGEX = /\/jobs?\/(\d+)\/?$/;
+const RUN_LINK_REGEX = /\/actions\/runs\/(\d+)\/?$/;
+const LEGACY_JOB_LINK_REGEX = /\/runs\/(\d+)\/?$/;
+
+/**
+ * Looks up the status of the workflow run or job that the given run link points to,
+ * returning null if the link isn't recognized
+ * @param runLink - Run link from a build entry
+ * @param actionContext - Base action context
+ */
+async function getRunStatus(
+  runLink: string,
+  actionContext: ActionContext,
+): Promise<RunStatus | Nil> {
+  const { octokit, repo } = actionContext;
+  const jobMatch =
+    JOB_LINK_REGEX.exec(runLink) ??
+    (RUN_LINK_REGEX.test(runLink) ? null : LEGACY_JOB_LINK_REGEX.exec(runLink));
+  if (jobMatch != null) {
+    const { data } = await octokit.actions.getWorkflowJob({
+      ...repo,
+      job_id: parseInt(jobMatch[1]),
+    });
+    const job = (data as unknown) as ActionsGetWorkflowJobResponseData;
+    return {
+      status: job.status,
+      conclusion: job.conclusion,
+      startedAt: job.started_at,
+    };
+  }
+
+  const runMatch = RUN_LINK_REGEX.exec(runLink);
+  if (runMatch != null) {
+    const { data } = await octokit.actions.getWorkflowRun({
+      ...repo,
+      run_id: parseInt(runMatch[1]),
+    });
+    const run = (data as unknown) as ActionsGetWorkflowRunResponseData;
+    return {
+      status: run.status,
+      conclusion: run.conclusion,
+      startedAt: run.created_at,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Gets the status a stale in-progress entry should be updated to, or null if it should
+ * be left as-is
+ * @param runStatus - Status of the entry's run
+ * @param staleTimeout - Age (in milliseconds) after which unfinished runs time out
+ * @param now - Current time, in milliseconds since the epoch
+ */
+function reconciledStatus(
+  runStatus: RunStatus,
+  staleTimeout: number,
+  now: number,
+): [BuildEmoji, BuildStatus] | null {
+  if (runStatus.status !== "completed") {
+    const age = now - Date.parse(runStatus.startedAt);
+    if (age > staleTimeout) return [BuildEmoji.TimedOut, BuildStatus.TimedOut];
+    return null;
+  }
+
+  switch (runStatus.conclusion) {
+    case "success":
+      return [BuildEmoji.Success, BuildStatus.Success];
+    case "failure":
+      return [BuildEmoji.Failure, BuildStatus.Failure];
+    case "cancelled":
+      return [BuildEmoji.Cancelled, BuildStatus.Cancelled];
+    case "skipped":
+      return [BuildEmoji.Skipped, BuildStatus.Skipped];
+    case "timed_out":
+    case "stale":
+      return [BuildEmoji.TimedOut, BuildStatus.TimedOut];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reconciles a single in-progress entry with the status of its run, mutating it
+ * @param entry - Build entry from a previous run
+ * @param actionContext - Base action context
+ */
+async function reconcileEntry(
+  entry: BuildEntry,
+  actionContext: ActionContext,
+): Promise<void> {
+  let runStatus: RunStatus | Nil;
+  try {
+    runStatus = await getRunStatus(entry.runLink, actionContext);
+  } catch (err) {
+    core.debug(`Unable to get the status of ${entry.runLink}: ${err.message}`);
+    return;
+  }
+
+  if (runStatus == null) {
+    core.debug(`Unrecognized run link ${entry.runLink}; skipping`);
+    return;
+  }
+
+  const { staleTimeout, clock } = actionContext;
+  const reconciled = reconciledStatus(runStatus, staleTimeout, clock.now());
+  if (reconciled == null) return;
+
+  const [emoji, status] = reconciled;
+  core.info(
+    `Reconciling stale in-progress build of ${entry.commitSha} as ${status}`,
+  );
+  entry.emoji = emoji;
+  entry.status = status;
+  if (status !== BuildStatus.Success) entry.deployUrl = null;
+}
+
+/**
+ * Finds any in-progress entries from other runs whose runs have actually concluded
+ * (for example, because the runner died before the cleanup step) or have been running
+ * for longer than the stale timeout, and updates them to match (mutating the state)
+ * @param state - Current build state
+ * @param actionContext - Base action context
+ */
+export async function reconcileState(
+  state: BuildState,
+  actionContext: ActionContext,
+): Promise<void> {
+  const { shortSha } = actionContext;
+  const stale = [state.latest, ...state.previous].filter(
+    (entry) =>
+      entry.status === BuildStatus.InProgress && entry.commitSha !== shortSha,
+  );
+  for (const entry of stale) {
+    await reconcileEntry(entry, actionContext);
+  }
+}
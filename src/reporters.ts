@@ -0,0 +1,390 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import { GitHub } from "@actions/github";
+import {
+  isStagingComment,
+  checkSummary,
+  BuildEntry,
+  BuildState,
+  BuildStatus,
+  CommentState,
+} from "./templates";
+import { ActionContext, CheckRun, Comment, Commit, Nil, Repo } from "./types";
+import { PAGE_SIZE } from "./client";
+import { resolveCommentOwner, OwnershipPolicy } from "./ownership";
+
+/**
+ * Existing report that the build state was previously written to
+ */
+export interface Report {
+  id: number;
+  body: string;
+  // Other reports for the same tag (such as comments created by concurrent first runs)
+  // that should be merged into this one and then deleted
+  duplicates?: Report[];
+}
+
+/**
+ * Location of a report that was just written
+ */
+export interface WrittenReport {
+  id: number;
+  url: string;
+}
+
+/**
+ * Destination that the build state is read from and written to. Each reporter stores
+ * the full `CommentState` (the `BuildState` of every deploy target), so the history can
+ * be carried over between runs
+ */
+export interface Reporter {
+  /**
+   * Attempts to find the existing report for the current PR, or null if one isn't found
+   * @param actionContext - Base action context
+   */
+  find(actionContext: ActionContext): Promise<Report | Nil>;
+
+  /**
+   * Writes the build state to the existing report if it exists, or creates a new one,
+   * deleting any duplicates of the existing report. Returns the location of the
+   * written report
+   * @param body - Rendered comment body, including the section of each deploy target
+   * @param commentState - New build state of each deploy target
+   * @param current - Current build entry
+   * @param report - Existing report from `find`
+   * @param actionContext - Base action context
+   */
+  write(
+    body: string,
+    commentState: CommentState,
+    current: BuildEntry,
+    report: Report | Nil,
+    actionContext: ActionContext,
+  ): Promise<WrittenReport>;
+}
+
+/**
+ * Finds every existing action comment for the given PR, oldest first. There should only
+ * be one, but concurrent runs can each create a comment before seeing the other's
+ * @param octokit - Current Octokit GitHub API binding instance
+ * @param prId - PR ID for the current CI context
+ * @param repo - GitHub repo for the current CI context
+ * @param tag - Optional action tag
+ * @param ownership - Policy for which authors' comments are the action's
+ */
+async function getActionComments(
+  octokit: GitHub,
+  prId: number,
+  repo: Repo,
+  tag: string | Nil,
+  ownership: OwnershipPolicy,
+): Promise<Comment[]> {
+  const isOwn = await resolveCommentOwner(octokit, ownership);
+  const comments: Comment[] = await octokit.paginate(
+    octokit.issues.listComments.endpoint.merge({
+      issue_number: prId,
+      ...repo,
+      per_page: PAGE_SIZE,
+    }),
+  );
+  return comments
+    .filter(isOwn)
+    .filter((comment) => isStagingComment(comment.body, tag))
+    .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Reports the build state in an issue comment on the PR
+ */
+export const commentReporter: Reporter = {
+  async find(actionContext: ActionContext): Promise<Report | Nil> {
+    const { prId, repo, tag, octokit, ownership } = actionContext;
+    const [comment, ...duplicates] = await getActionComments(
+      octokit,
+      prId,
+      repo,
+      tag,
+      ownership,
+    );
+    if (comment == null) {
+      core.debug(`Found no existing CI comment on PR ${prId}`);
+      return null;
+    }
+
+    core.debug(
+      `Found existing CI comment ${comment.id} by ${comment.user.login} on PR ${prId}`,
+    );
+    if (duplicates.length > 0) {
+      core.info(
+        `Found duplicate CI comments ${duplicates
+          .map(({ id }) => id)
+          .join(", ")} on PR ${prId}; merging them into ${comment.id}`,
+      );
+    }
+    return {
+      id: comment.id,
+      body: comment.body,
+      duplicates: duplicates.map(({ id, body }) => ({ id, body })),
+    };
+  },
+
+  async write(
+    body: string,
+    commentState: CommentState,
+    current: BuildEntry,
+    report: Report | Nil,
+    actionContext: ActionContext,
+  ): Promise<WrittenReport> {
+    const { octokit, prId, repo } = actionContext;
+    let written: WrittenReport;
+    if (report != null) {
+      const { data } = await octokit.issues.updateComment({
+        ...repo,
+        body,
+        comment_id: report.id,
+      });
+      written = { id: data.id, url: data.html_url };
+    } else {
+      const { data } = await octokit.issues.createComment({
+        ...repo,
+        body,
+        issue_number: prId,
+      });
+      written = { id: data.id, url: data.html_url };
+    }
+
+    // The duplicates' build states have been merged into the body, so remove them
+    for (const duplicate of report?.duplicates ?? []) {
+      try {
+        await octokit.issues.deleteComment({
+          ...repo,
+          comment_id: duplicate.id,
+        });
+      } catch (err) {
+        // Another run might have already deleted it
+        core.debug(
+          `Unable to delete duplicate CI comment ${duplicate.id}: ${err.message}`,
+        );
+      }
+    }
+    return written;
+  },
+};
+
+/**
+ * Gets the name of the check run for the current action, based on the job name, tag
+ * and deploy target. Since check runs can't be shared, each target gets its own
+ * @param actionContext - Base action context
+ */
+export function checkName(actionContext: ActionContext): string {
+  const { jobName, tag, target } = actionContext;
+  const job = jobName != null && jobName !== "" ? ` / ${jobName}` : "";
+  const name = [tag, target].filter((part) => part != null && part !== "");
+  return `Deploy preview${job}${
+    name.length > 0 ? ` (${name.join(", ")})` : ""
+  }`;
+}
+
+/**
+ * Attempts to find the check run with the given name on the given commit, or null if
+ * one isn't found
+ * @param actionContext - Base action context
+ * @param sha - Full commit SHA
+ */
+async function getCheckRun(
+  actionContext: ActionContext,
+  sha: string,
+): Promise<Report | Nil> {
+  const { octokit, repo } = actionContext;
+  const checkRuns: CheckRun[] = await octokit.paginate(
+    octokit.checks.listForRef.endpoint.merge({
+      ...repo,
+      ref: sha,
+      check_name: checkName(actionContext),
+      per_page: PAGE_SIZE,
+    }),
+  );
+  for (const checkRun of checkRuns) {
+    const { summary } = checkRun.output;
+    if (summary != null) return { id: checkRun.id, body: summary };
+  }
+  return null;
+}
+
+/**
+ * Gets the check run fields for the status of the current build entry, or for the
+ * removal of the deploy preview once the PR is closed or merged
+ * @param current - Current build entry
+ * @param removed - Why the deploy preview was removed, if it was
+ */
+function checkStatus(
+  current: BuildEntry,
+  removed: BuildState["removed"],
+): {
+  title: string;
+  status: "in_progress" | "completed";
+  conclusion?: "success" | "failure" | "cancelled" | "neutral" | "timed_out";
+} {
+  if (removed != null) {
+    return {
+      title: "Deploy preview removed",
+      status: "completed",
+      conclusion: "neutral",
+    };
+  }
+
+  switch (current.status) {
+    case BuildStatus.InProgress:
+      return { title: "Building deploy preview", status: "in_progress" };
+    case BuildStatus.Success:
+      return {
+        title: "Deploy preview available",
+        status: "completed",
+        conclusion: "success",
+      };
+    case BuildStatus.Failure:
+      return {
+        title: "Deploy preview failed",
+        status: "completed",
+        conclusion: "failure",
+      };
+    case BuildStatus.Unreachable:
+      return {
+        title: "Deploy preview unreachable",
+        status: "completed",
+        conclusion: "failure",
+      };
+    case BuildStatus.Cancelled:
+    case BuildStatus.Superseded:
+      return {
+        title: "Deploy preview cancelled",
+        status: "completed",
+        conclusion: "cancelled",
+      };
+    case BuildStatus.AwaitingApproval:
+      return {
+        title: "Deploy preview awaiting approval",
+        status: "completed",
+        conclusion: "neutral",
+      };
+    case BuildStatus.Skipped:
+      return {
+        title: "Deploy preview skipped",
+        status: "completed",
+        conclusion: "neutral",
+      };
+    case BuildStatus.TimedOut:
+      return {
+        title: "Deploy preview timed out",
+        status: "completed",
+        conclusion: "timed_out",
+      };
+  }
+}
+
+// Number of earlier commits in the PR to search for a check run to carry the history
+// over from
+const MAX_CHECK_RUN_COMMITS = 10;
+
+/**
+ * Reports the build state in a check run on the PR's head commit (even when building
+ * the merge commit, which isn't one of the PR's commits, since that's where GitHub
+ * shows a PR's checks). Since check runs are scoped to a single commit, the build
+ * history is carried over from the check run on the most recent commit in the PR that
+ * has one, only searching the last few commits (which is where earlier pushes put
+ * their check runs)
+ */
+export const checkReporter: Reporter = {
+  async find(actionContext: ActionContext): Promise<Report | Nil> {
+    const { octokit, prId, repo, headSha } = actionContext;
+    const current = await getCheckRun(actionContext, headSha);
+    if (current != null) return current;
+
+    // Listed oldest first, so every page is needed to reach the newest commits
+    const commits: Commit[] = await octokit.paginate(
+      octokit.pulls.listCommits.endpoint.merge({
+        ...repo,
+        pull_number: prId,
+        per_page: PAGE_SIZE,
+      }),
+    );
+
+    // Search from the newest commit backwards
+    const recent = commits
+      .filter((commit) => commit.sha !== headSha)
+      .slice(-MAX_CHECK_RUN_COMMITS)
+      .reverse();
+    for (const commit of recent) {
+      const checkRun = await getCheckRun(actionContext, commit.sha);
+      if (checkRun != null) {
+        core.debug(
+          `Found existing check run ${checkRun.id} on commit ${commit.sha}`,
+        );
+        return checkRun;
+      }
+    }
+
+    core.debug(
+      `Found no existing check run on the recent commits of PR ${prId}`,
+    );
+    return null;
+  },
+
+  async write(
+    body: string,
+    commentState: CommentState,
+    current: BuildEntry,
+    report: Report | Nil,
+    actionContext: ActionContext,
+  ): Promise<WrittenReport> {
+    const { octokit, repo, headSha, stagingUrl, clock, target } = actionContext;
+    const { title, status, conclusion } = checkStatus(
+      current,
+      commentState.targets[target]?.removed,
+    );
+    const fields = {
+      ...repo,
+      name: checkName(actionContext),
+      status,
+      conclusion,
+      completed_at:
+        conclusion != null ? new Date(clock.now()).toISOString() : undefined,
+      details_url: stagingUrl,
+      output: { title, summary: checkSummary(commentState) },
+    };
+
+    // The existing report might be on a previous commit, so only update it if it's on
+    // the current commit
+    const checkRun = await getCheckRun(actionContext, headSha);
+    if (checkRun != null) {
+      const { data } = await octokit.checks.update({
+        ...fields,
+        check_run_id: checkRun.id,
+      });
+      return { id: data.id, url: data.html_url };
+    }
+    const { data } = await octokit.checks.create({
+      ...fields,
+      head_sha: headSha,
+    });
+    return { id: data.id, url: data.html_url };
+  },
+};
+
+/**
+ * Gets the reporter with the given name, throwing an Exception if it doesn't exist
+ * @param name - Value of the `reporter` input
+ */
+export function getReporter(name: string): Reporter {
+  switch (name) {
+    case "":
+    case "comment":
+      return commentReporter;
+    case "check":
+      return checkReporter;
+    default:
+      throw new Error(
+        `Unknown reporter "${name}"; expected either "comment" or "check"`,
+      );
+  }
+}
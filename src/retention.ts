@@ -0,0 +1,144 @@
+import * as core from "@actions/core";
+import { BuildEntry, BuildState, CommentState } from "./templates";
+import { numberInput, Inputs } from "./inputs";
+import { Nil } from "./types";
+
+/**
+ * Options controlling how much build history is kept in each report
+ */
+export interface RetentionOptions {
+  maxHistory: number;
+  // In milliseconds
+  maxHistoryAge: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// Deploy previews are kept for 2 weeks after they are created (see `LINK_NOTE`)
+const LINK_RETENTION = 14 * DAY;
+// GitHub rejects comment bodies (and check run summaries) longer than this
+const MAX_BODY_LENGTH = 65536;
+
+/**
+ * Reads the build history retention options from the action inputs, where history is
+ * kept indefinitely by default
+ * @param inputs - Source of the action inputs
+ */
+export function getRetentionOptions(inputs: Inputs): RetentionOptions {
+  return {
+    maxHistory: Math.floor(numberInput(inputs, "max-history", Infinity)),
+    maxHistoryAge: numberInput(inputs, "max-history-age", Infinity) * DAY,
+  };
+}
+
+/**
+ * Gets the age of a build entry in milliseconds, or null if it is unknown (for entries
+ * written by older versions of the action)
+ * @param entry - Build entry
+ * @param now - Current time, in milliseconds since the epoch
+ */
+function entryAge(entry: BuildEntry, now: number): number | null {
+  if (entry.builtAt == null) return null;
+  const builtAt = Date.parse(entry.builtAt);
+  return isNaN(builtAt) ? null : now - builtAt;
+}
+
+/**
+ * Prunes the history of a build state according to the retention options, and marks
+ * the deploy links of any entries past the retention window of deploy previews as
+ * expired (mutating the state). The latest entry is always kept, as is the entry being
+ * published (which can be in the history if its commit is outdated)
+ * @param state - Build state of a single deploy target
+ * @param options - Build history retention options
+ * @param now - Current time, in milliseconds since the epoch
+ * @param current - Entry being published, if it is in this state
+ */
+export function pruneState(
+  state: BuildState,
+  options: RetentionOptions,
+  now: number,
+  current?: BuildEntry | Nil,
+): void {
+  const { maxHistory, maxHistoryAge } = options;
+  const retained = state.previous
+    .filter((entry) => (entryAge(entry, now) ?? 0) <= maxHistoryAge)
+    .slice(0, maxHistory);
+  const kept = state.previous.filter(
+    (entry) => entry === current || retained.includes(entry),
+  );
+  if (kept.length < state.previous.length) {
+    core.debug(
+      `Pruning ${state.previous.length -
+        kept.length} build entries from the history`,
+    );
+    state.previous = kept;
+  }
+
+  for (const entry of [state.latest, ...state.previous]) {
+    const age = entryAge(entry, now);
+    if (entry.deployUrl != null && age != null && age > LINK_RETENTION)
+      entry.expired = true;
+  }
+}
+
+/**
+ * Drops an archived comment (or, once there are none left, the oldest entry from the
+ * target with the longest history), mutating the state. Returns false if there was
+ * nothing left to drop
+ * @param commentState - Build state of each deploy target
+ * @param current - Entry being published, which is never dropped
+ */
+function dropOldest(
+  commentState: CommentState,
+  current: BuildEntry | Nil,
+): boolean {
+  const states = Object.values(commentState.targets);
+  const archived = states.find((state) => state.archive != null);
+  if (archived != null) {
+    delete archived.archive;
+    return true;
+  }
+
+  const droppable = (state: BuildState): BuildEntry[] =>
+    state.previous.filter((entry) => entry !== current);
+  let longest: BuildState | null = null;
+  for (const state of states) {
+    if (longest == null || droppable(state).length > droppable(longest).length)
+      longest = state;
+  }
+  const oldest = longest != null ? droppable(longest).pop() : null;
+  if (longest != null && oldest != null) {
+    longest.previous = longest.previous.filter((entry) => entry !== oldest);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Renders a report body, dropping archived comments and then the oldest build entries
+ * (mutating the state) until it fits within GitHub's size limit
+ * @param commentState - Build state of each deploy target
+ * @param render - Renders the report body from the current state
+ * @param current - Entry being published, which is never dropped
+ */
+export function renderWithinLimit(
+  commentState: CommentState,
+  render: () => string,
+  current?: BuildEntry | Nil,
+): string {
+  let body = render();
+  let dropped = 0;
+  while (body.length > MAX_BODY_LENGTH && dropOldest(commentState, current)) {
+    dropped += 1;
+    body = render();
+  }
+
+  if (dropped > 0)
+    core.info(
+      `Dropped ${dropped} of the oldest build entries to keep the report under ${MAX_BODY_LENGTH} characters`,
+    );
+  if (body.length > MAX_BODY_LENGTH)
+    core.warning(
+      `Report is ${body.length} characters long, which is over GitHub's limit of ${MAX_BODY_LENGTH}`,
+    );
+  return body;
+}
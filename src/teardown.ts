@@ -0,0 +1,18 @@
+import * as core from "@actions/core";
+import { Http } from "./http";
+
+/**
+ * Asks the staging server to remove the deploy preview of a closed or merged PR by
+ * sending a `DELETE` request to its teardown endpoint. Failures are logged rather than
+ * thrown, so that the report is still updated
+ * @param url - Teardown endpoint URL
+ * @param http - Makes outbound HTTP requests
+ */
+export async function teardownPreview(url: string, http: Http): Promise<void> {
+  try {
+    const response = await http.delete(url);
+    core.info(`Removed deploy preview at ${url} (HTTP ${response.statusCode})`);
+  } catch (err) {
+    core.warning(`Unable to remove deploy preview at ${url}: ${err.message}`);
+  }
+}
@@ -0,0 +1,294 @@
+import * as fs from "fs";
+import {
+  details,
+  entry,
+  BuildEntry,
+  CommentArgs,
+  Template,
+  Templates,
+} from "./templates";
+import { Env } from "./types";
+import { workspacePath } from "./inputs";
+
+/**
+ * Named partials parsed from a template file, along with the line each one starts on
+ */
+type Partials = Record<string, { source: string; line: number }>;
+
+// Each partial starts with a line like `<!-- template:header -->`
+const SECTION_REGEX = /^<!--\s*template:([\w:-]+)\s*-->\s*$/;
+// Placeholders look like `{{prId}}`, and partials are included with `{{> header}}`
+const TOKEN_REGEX = /\{\{\s*(>\s*)?([\w:-]+)\s*\}\}/g;
+
+// Partials that are rendered by the action itself (`message` is also special, since it
+// renders the `message:<kind>` partial for the current build status if it exists)
+const BUILT_IN_PARTIALS = ["latest", "history", "details"];
+// Partials that fall back to the default rendering if the template doesn't define them
+const DEFAULT_PARTIALS: Record<string, string> = {
+  row: "",
+  "history-empty": "No previous builds found",
+};
+const VARIABLES = [
+  "prId",
+  "url",
+  "tag",
+  "target",
+  "emoji",
+  "status",
+  "deployUrl",
+  "commitSha",
+  "commitLink",
+  "buildTime",
+  "buildDuration",
+  "runLink",
+  "error",
+];
+const MESSAGE_KINDS: Record<keyof Templates, string> = {
+  building: "building",
+  successful: "success",
+  failed: "failure",
+  unreachable: "unreachable",
+  cancelled: "cancelled",
+  skipped: "skipped",
+  approvalRequired: "approval",
+  removed: "removed",
+};
+
+/**
+ * Splits the source of a template file into its named partials, throwing an Exception
+ * if any partial is defined more than once or shadows a built-in partial
+ * @param source - Contents of the template file
+ * @param file - Path to the template file, used in error messages
+ */
+function parsePartials(source: string, file: string): Partials {
+  const partials: Partials = {};
+  const kinds = Object.values(MESSAGE_KINDS);
+  let current: string | null = null;
+  for (const [index, text] of source.split(/\r?\n/).entries()) {
+    const line = index + 1;
+    const matchObject = SECTION_REGEX.exec(text);
+    if (matchObject != null) {
+      current = matchObject[1];
+      if (BUILT_IN_PARTIALS.includes(current))
+        throw new Error(
+          `${file}:${line}: "${current}" is a built-in partial and can't be redefined`,
+        );
+      const [prefix, kind] = current.split(":");
+      if (prefix === "message" && kind != null && !kinds.includes(kind))
+        throw new Error(
+          `${file}:${line}: unknown message kind "${kind}"; expected one of ${kinds.join(
+            ", ",
+          )}`,
+        );
+      if (partials[current] != null)
+        throw new Error(`${file}:${line}: duplicate partial "${current}"`);
+      partials[current] = { source: "", line: line + 1 };
+    } else if (current != null) {
+      partials[current].source += `${text}\n`;
+    } else if (text.trim().length > 0) {
+      throw new Error(
+        `${file}:${line}: content must be inside a partial (such as "<!-- template:body -->")`,
+      );
+    }
+  }
+  return partials;
+}
+
+/**
+ * Validates the placeholders and partial references in each partial, throwing an
+ * Exception with the location of the first problem found
+ * @param partials - Parsed partials
+ * @param file - Path to the template file, used in error messages
+ */
+function validatePartials(partials: Partials, file: string): void {
+  if (partials.body == null)
+    throw new Error(`${file}: missing required partial "body"`);
+
+  for (const [name, { source, line }] of Object.entries(partials)) {
+    for (const [offset, text] of source.split("\n").entries()) {
+      const location = `${file}:${line + offset}`;
+      for (const [token, isPartial, ref] of matchAll(text, TOKEN_REGEX)) {
+        if (isPartial == null) {
+          if (!VARIABLES.includes(ref))
+            throw new Error(
+              `${location}: unknown placeholder ${token} in partial "${name}"; expected one of ${VARIABLES.join(
+                ", ",
+              )}`,
+            );
+        } else if (ref === "message") {
+          for (const kind of Object.values(MESSAGE_KINDS)) {
+            if (partials[`message:${kind}`] == null && partials.message == null)
+              throw new Error(
+                `${location}: ${token} is used, but neither "message:${kind}" nor a default "message" partial is defined`,
+              );
+          }
+        } else if (
+          !BUILT_IN_PARTIALS.includes(ref) &&
+          DEFAULT_PARTIALS[ref] == null &&
+          partials[ref] == null
+        ) {
+          throw new Error(`${location}: unknown partial ${token}`);
+        }
+      }
+    }
+  }
+
+  // Make sure that no partials include themselves
+  const visit = (name: string, stack: string[]): void => {
+    if (stack.includes(name))
+      throw new Error(
+        `${file}: partial "${name}" includes itself (${[...stack, name].join(
+          " > ",
+        )})`,
+      );
+    const partial = partials[name];
+    if (partial == null) return;
+    for (const [, isPartial, ref] of matchAll(partial.source, TOKEN_REGEX)) {
+      if (isPartial == null) continue;
+      // Including the message includes every kind of message
+      const refs =
+        ref === "message"
+          ? Object.keys(partials).filter(
+              (other) => other === ref || other.startsWith(`${ref}:`),
+            )
+          : [ref];
+      for (const other of refs) visit(other, [...stack, name]);
+    }
+  };
+  for (const name of Object.keys(partials)) visit(name, []);
+}
+
+/**
+ * Gets every match of a global regular expression in the given string
+ * @param text - String to search
+ * @param regex - Global regular expression
+ */
+function matchAll(text: string, regex: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const globalRegex = new RegExp(regex.source, "g");
+  let matchObject = globalRegex.exec(text);
+  while (matchObject != null) {
+    matches.push(matchObject);
+    matchObject = globalRegex.exec(text);
+  }
+  return matches;
+}
+
+/**
+ * Gets the values of the placeholders for the given comment args and build entry
+ * @param args - Comment args
+ * @param buildEntry - Build entry that row placeholders refer to
+ */
+function variables(
+  args: CommentArgs,
+  buildEntry: BuildEntry,
+): Record<string, string> {
+  return {
+    prId: args.prId,
+    url: args.url,
+    tag: args.tag ?? "",
+    target: args.target ?? "",
+    emoji: buildEntry.emoji,
+    status: buildEntry.status,
+    deployUrl: buildEntry.deployUrl ?? "~",
+    commitSha: buildEntry.commitSha,
+    commitLink: buildEntry.commitLink,
+    buildTime: buildEntry.buildTime,
+    buildDuration: buildEntry.buildDuration ?? "~",
+    runLink: buildEntry.runLink,
+    error: buildEntry.error ?? "",
+  };
+}
+
+/**
+ * Renders a single partial, recursively rendering any partials it includes
+ * @param partials - Parsed partials
+ * @param name - Name of the partial to render
+ * @param kind - Kind of message for the current build status
+ * @param args - Comment args
+ * @param buildEntry - Build entry that row placeholders refer to
+ */
+function renderPartial(
+  partials: Partials,
+  name: string,
+  kind: string,
+  args: CommentArgs,
+  buildEntry: BuildEntry,
+): string {
+  const { state } = args;
+  switch (name) {
+    case "message":
+      if (partials[`message:${kind}`] != null)
+        return renderPartial(
+          partials,
+          `message:${kind}`,
+          kind,
+          args,
+          buildEntry,
+        );
+      break;
+    case "latest":
+      return renderPartial(partials, "row", kind, args, state.latest);
+    case "history":
+      if (state.previous.length === 0)
+        return renderPartial(partials, "history-empty", kind, args, buildEntry);
+      return state.previous
+        .map((previous) => renderPartial(partials, "row", kind, args, previous))
+        .join("\n");
+    case "details":
+      return details(state);
+  }
+
+  const partial = partials[name];
+  if (partial == null) {
+    // Fall back to the default rendering
+    return name === "row" ? entry(buildEntry) : DEFAULT_PARTIALS[name];
+  }
+
+  const values = variables(args, buildEntry);
+  return partial.source
+    .replace(
+      TOKEN_REGEX,
+      (_token, isPartial: string | undefined, ref: string) =>
+        isPartial != null
+          ? renderPartial(partials, ref, kind, args, buildEntry)
+          : values[ref],
+    )
+    .trim();
+}
+
+/**
+ * Loads, validates and compiles a custom template file from the repository, throwing an
+ * Exception describing the problem if the template file is invalid. Each template
+ * renders the section of a single deploy target; the hidden tags are added when the
+ * sections are combined into a comment, so the comment can still be found and parsed
+ * @param file - Path to the template file, relative to the workspace
+ * @param env - Environment variables of the run
+ */
+export function loadTemplateFile(file: string, env: Env): Templates {
+  const fullPath = workspacePath(file, env);
+  let source: string;
+  try {
+    source = fs.readFileSync(fullPath, "utf8");
+  } catch (err) {
+    throw new Error(
+      `Unable to read template file ${file} (did the repository get checked out?): ${err.message}`,
+    );
+  }
+
+  const partials = parsePartials(source, file);
+  validatePartials(partials, file);
+
+  const compile = (kind: string): Template => (args: CommentArgs): string =>
+    renderPartial(partials, "body", kind, args, args.state.latest);
+  return {
+    building: compile(MESSAGE_KINDS.building),
+    successful: compile(MESSAGE_KINDS.successful),
+    failed: compile(MESSAGE_KINDS.failed),
+    unreachable: compile(MESSAGE_KINDS.unreachable),
+    cancelled: compile(MESSAGE_KINDS.cancelled),
+    skipped: compile(MESSAGE_KINDS.skipped),
+    approvalRequired: compile(MESSAGE_KINDS.approvalRequired),
+    removed: compile(MESSAGE_KINDS.removed),
+  };
+}
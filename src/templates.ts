@@ -7,6 +7,12 @@ export enum BuildStatus {
   InProgress = "In&#8209;progress",
   Success = "Success",
   Failure = "Failure",
+  Unreachable = "Deployed,&nbsp;unreachable",
+  Cancelled = "Cancelled",
+  Skipped = "Skipped",
+  Superseded = "Superseded",
+  TimedOut = "Timed&nbsp;out",
+  AwaitingApproval = "Awaiting&nbsp;approval",
 }
 
 /**
@@ -16,6 +22,13 @@ export enum BuildEmoji {
   InProgress = "🟡",
   Success = "🟢",
   Failure = "🔴",
+  Unreachable = "⚠️",
+  Cancelled = "⛔",
+  Skipped = "⏭️",
+  Superseded = "⏩",
+  TimedOut = "⌛",
+  AwaitingApproval = "🔒",
+  Regressed = "🟨",
 }
 
 /**
@@ -30,6 +43,40 @@ export interface BuildEntry {
   buildTime: string;
   buildDuration: string | null;
   runLink: string;
+  error?: string | null;
+  outdated?: boolean;
+  // ISO 8601 build time, used to prune old entries and expire their deploy links
+  builtAt?: string;
+  expired?: boolean;
+  // Whether the deploy preview was removed when the PR was closed or merged
+  retired?: boolean;
+  results?: BuildResult[];
+  // Raw build duration (in seconds) and total artifact size (in bytes), for trends
+  durationSeconds?: number;
+  size?: number;
+  trends?: BuildTrend[];
+}
+
+/**
+ * Comparison of a build entry against an earlier build (such as the previous successful
+ * build, or the latest build of the base branch)
+ */
+export interface BuildTrend {
+  against: string;
+  durationDelta?: number | null;
+  durationPercent?: number | null;
+  sizeDelta?: number | null;
+  sizePercent?: number | null;
+}
+
+/**
+ * Named result attached to a build entry by a later workflow step (such as a Lighthouse
+ * score or bundle size), with an optional link to more details
+ */
+export interface BuildResult {
+  name: string;
+  value: string;
+  link?: string | null;
 }
 
 /**
@@ -39,15 +86,58 @@ export interface CommentArgs {
   prId: string;
   url: string;
   tag: string | Nil;
+  target: string | Nil;
   state: BuildState;
 }
 
+/**
+ * Renders a build state (along with the other comment args) into a comment body
+ */
+export type Template = (args: CommentArgs) => string;
+
+/**
+ * Set of comment templates, one for each kind of build status
+ */
+export interface Templates {
+  building: Template;
+  successful: Template;
+  failed: Template;
+  unreachable: Template;
+  cancelled: Template;
+  skipped: Template;
+  approvalRequired: Template;
+  removed: Template;
+}
+
 /**
  * Current state of the build CI
  */
 export interface BuildState {
   latest: BuildEntry;
   previous: BuildEntry[];
+  archive?: string;
+  // Staging URL of the target, so that other targets sharing the comment can render it
+  url?: string;
+  // Set once the PR is closed or merged, until it is reopened
+  removed?: "merged" | "closed";
+}
+
+/**
+ * Build state of every deploy target that shares a single comment, keyed by the target
+ * name (where the default target, used when no target is given, has an empty name)
+ */
+export interface CommentState {
+  targets: Record<string, BuildState>;
+}
+
+export const DEFAULT_TARGET = "";
+
+/**
+ * Build entries salvaged from a comment that couldn't be parsed as a whole
+ */
+export interface SalvagedState {
+  entries: BuildEntry[];
+  invalidRows: string[];
 }
 
 type Nil = null | undefined;
@@ -56,6 +146,21 @@ const COMMENT_TAG = (tag: string | Nil): string =>
 const HEADER_ROW = "| | Status | Url | Commit | Started at | Duration | Job |";
 const SEPARATOR_ROW = "|-|-|-|-|-|-|-|";
 const NULL = "~";
+const OUTDATED = " (outdated)";
+const EXPIRED = "~~";
+const RETIRED = " (retired)";
+const STATE_VERSION = 2;
+const STATE_TAG_REGEX = /<!-- ci\/staging-comment-state (\{[^>]*\}) -->/;
+
+/**
+ * Versioned, machine-readable build state embedded in each comment
+ */
+interface StatePayload {
+  version: number;
+  targets?: Record<string, BuildState>;
+  // Version 1 payloads only held the state of the default target
+  state?: BuildState;
+}
 
 /**
  * Determines if the given comment comes from this action, where it should include a
@@ -70,28 +175,112 @@ export function isStagingComment(body: string, tag: string | Nil): boolean {
 const BUILD_ENTRY_REGEX = /^\|.*\|\s*$/;
 
 /**
- * Gets each build entry from a comment body, splitting the top entry from the previous
- * entries, if they exist. Throws an Exception if parsing fails or there aren't enough
- * build entries.
+ * Gets the state of each deploy target from a comment body, preferring the embedded
+ * state payload (see `stateTag`) and falling back to parsing the rendered Markdown table
+ * (as the default target) for comments written by older versions of the action. Throws
+ * an Exception if parsing fails or there aren't enough build entries.
  * @param body - Comment body
  */
-export function getBuildState(body: string): BuildState {
-  const lines = body.split(/\r?\n/);
-  const entries: BuildEntry[] = [];
-  for (const line of lines) {
-    if (
-      line.match(BUILD_ENTRY_REGEX) &&
-      !(line.startsWith(HEADER_ROW) || line.startsWith(SEPARATOR_ROW))
-    ) {
-      entries.push(parseBuildEntry(line));
-    }
+export function getCommentState(body: string): CommentState {
+  const embedded = parseStateTag(body);
+  if (embedded != null) return embedded;
+  return { targets: { [DEFAULT_TARGET]: parseBuildTable(body) } };
+}
+
+/**
+ * Parses the embedded state payload from a comment body, or returns null if the comment
+ * doesn't contain one. Throws an Exception if the payload is malformed or was written
+ * by an unsupported version
+ * @param body - Comment body
+ */
+function parseStateTag(body: string): CommentState | null {
+  const matchObject = STATE_TAG_REGEX.exec(body);
+  if (matchObject == null) return null;
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(matchObject[1]);
+  } catch (err) {
+    throw new Error(`Unable to parse embedded build state: ${err.message}`);
+  }
+
+  let targets: Record<string, BuildState | Nil>;
+  switch (payload.version) {
+    case 1:
+      targets = { [DEFAULT_TARGET]: payload.state };
+      break;
+    case STATE_VERSION:
+      targets = payload.targets ?? {};
+      break;
+    default:
+      throw new Error(
+        `Unsupported embedded build state version ${payload.version}`,
+      );
   }
 
+  for (const state of Object.values(targets)) {
+    if (state == null || state.latest == null || !Array.isArray(state.previous))
+      throw new Error(`Malformed embedded build state ${matchObject[1]}`);
+  }
+  return { targets: targets as Record<string, BuildState> };
+}
+
+/**
+ * Gets each build entry from the rendered Markdown table in a comment body, splitting
+ * the top entry from the previous entries, if they exist. Throws an Exception if
+ * parsing fails or there aren't enough build entries.
+ * @param body - Comment body
+ */
+function parseBuildTable(body: string): BuildState {
+  const entries = getTableRows(body).map(parseBuildEntry);
   if (entries.length >= 1)
     return { latest: entries[0], previous: entries.slice(1) };
   throw new Error(`Too few build entries parsed from comment ${body}`);
 }
 
+/**
+ * Salvages as many build entries as possible from a comment body that
+ * `getCommentState` failed to parse, collecting the table rows that couldn't be parsed
+ * instead of throwing an Exception
+ * @param body - Comment body
+ */
+export function salvageBuildState(body: string): SalvagedState {
+  const entries: BuildEntry[] = [];
+  const invalidRows: string[] = [];
+  for (const row of getTableRows(body)) {
+    try {
+      entries.push(parseBuildEntry(row));
+    } catch (err) {
+      invalidRows.push(row);
+    }
+  }
+  return { entries, invalidRows };
+}
+
+/**
+ * Gets each table row from a comment body that could be a build entry (excluding the
+ * header and separator rows)
+ * @param body - Comment body
+ */
+function getTableRows(body: string): string[] {
+  return body
+    .split(/\r?\n/)
+    .filter(
+      (line) =>
+        line.match(BUILD_ENTRY_REGEX) &&
+        !(line.startsWith(HEADER_ROW) || line.startsWith(SEPARATOR_ROW)),
+    );
+}
+
+/**
+ * Prepares an unparseable comment body to be archived in the build state, removing any
+ * hidden tags so that the archived copy can't be mistaken for the live state
+ * @param body - Comment body
+ */
+export function archiveBody(body: string): string {
+  return body.replace(/<!-- ci\/staging-comment-[^>]*-->/g, "").trim();
+}
+
 /**
  * Parses a single build entry line from the comment body. Throws an Exception if parsing
  * fails
@@ -110,15 +299,34 @@ function parseBuildEntry(line: string): BuildEntry {
       `Incorrect number of cells in build entry: ${JSON.stringify(cells)}`,
     );
   const [commitSha, commitLink] = parseLink(cells[3]);
+  let status = cells[1];
+  const retired = status.endsWith(RETIRED);
+  if (retired) status = status.slice(0, -RETIRED.length);
+  const outdated = status.endsWith(OUTDATED);
+  if (outdated) status = status.slice(0, -OUTDATED.length);
+  const expired =
+    cells[2].startsWith(EXPIRED) &&
+    cells[2].endsWith(EXPIRED) &&
+    cells[2] !== NULL;
   return {
     emoji: cells[0] as BuildEmoji,
-    status: cells[1] as BuildStatus,
-    deployUrl: cells[2] === NULL ? null : parseLink(cells[2])[1],
+    status: status as BuildStatus,
+    deployUrl:
+      cells[2] === NULL
+        ? null
+        : parseLink(
+            expired
+              ? cells[2].slice(EXPIRED.length, -EXPIRED.length)
+              : cells[2],
+          )[1],
     commitSha: commitSha.replace(/`/g, ""),
     commitLink,
     buildTime: cells[4],
     buildDuration: cells[5] === NULL ? null : cells[5],
     runLink: parseLink(cells[6])[1],
+    ...(outdated ? { outdated } : {}),
+    ...(expired ? { expired } : {}),
+    ...(retired ? { retired } : {}),
   };
 }
 
@@ -135,15 +343,89 @@ function parseLink(markdown: string): [string, string] {
   throw new Error(`Unable to parse markdown link ${markdown}`);
 }
 
+/**
+ * Renders the state of every deploy target as a hidden HTML comment containing a
+ * versioned JSON payload, so that it can be read back without parsing the rendered
+ * Markdown tables. Any `<` or `>` characters are escaped so that the payload can't
+ * terminate the HTML comment
+ * @param commentState - Current build state of each deploy target
+ */
+const stateTag = ({ targets }: CommentState): string => {
+  const payload: StatePayload = { version: STATE_VERSION, targets };
+  const json = JSON.stringify(payload)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e");
+  return `<!-- ci/staging-comment-state ${json} -->`;
+};
+
+/**
+ * Renders a full comment from the rendered section of each deploy target, adding the
+ * hidden comment tag and state tag to the beginning so that it can be found and parsed
+ * @param tag - Optional action tag
+ * @param commentState - Current build state of each deploy target
+ * @param sections - Rendered section of each deploy target, in order
+ */
+export const renderComment = (
+  tag: string | Nil,
+  commentState: CommentState,
+  sections: string[],
+): string =>
+  `
+${COMMENT_TAG(tag)}
+${stateTag(commentState)}
+${sections.map((section) => section.trim()).join("\n\n")}
+`.trim();
+
+/**
+ * Gets the kind of template that renders a target based on the status of its latest
+ * build, used to re-render the sections of the other targets sharing a comment
+ * @param state - Build state of the target
+ */
+export function templateKind(state: BuildState): keyof Templates {
+  if (state.removed != null) return "removed";
+  switch (state.latest.status) {
+    case BuildStatus.InProgress:
+      return "building";
+    case BuildStatus.Success:
+      return "successful";
+    case BuildStatus.Unreachable:
+      return "unreachable";
+    case BuildStatus.Cancelled:
+    case BuildStatus.Superseded:
+      return "cancelled";
+    case BuildStatus.Skipped:
+      return "skipped";
+    case BuildStatus.AwaitingApproval:
+      return "approvalRequired";
+    case BuildStatus.Failure:
+    case BuildStatus.TimedOut:
+      return "failed";
+  }
+}
+
+/**
+ * Renders the heading of a section, naming the target (or tag) if there is one
+ * @param tag - Optional action tag
+ * @param target - Optional deploy target
+ * @param title - Heading text
+ */
+const heading = (
+  tag: string | Nil,
+  target: string | Nil,
+  title = "Deploy preview",
+): string => {
+  const name = target != null && target !== DEFAULT_TARGET ? target : tag;
+  return `### ${title}${name != null ? ` (\`${name}\`)` : ""}`;
+};
+
 const LINK_NOTE =
   "Semi-permanent links to the built versions of each commit are available in the details below, which are kept for 2 weeks after they are created.";
 
 /**
  * Renders the failure comment
  */
-export const failed = ({ state, tag }: CommentArgs): string => `
-${COMMENT_TAG(tag)}
-### Deploy preview${tag != null ? ` (\`${tag}\`)` : ""}
+export const failed = ({ state, tag, target }: CommentArgs): string => `
+${heading(tag, target)}
 There was an error building a deploy preview for the last commit. For more details, check the output of the action run [here](${
   state.latest.runLink
 }).
@@ -153,13 +435,90 @@ ${LINK_NOTE}
 ${details(state)}
 `;
 
+/**
+ * Renders the comment for PRs from untrusted forks that need approval before a deploy
+ * preview can be built
+ */
+export const approvalRequired = ({
+  prId,
+  state,
+  tag,
+  target,
+}: CommentArgs): string =>
+  `
+${heading(tag, target)}
+Thanks for the contribution! Deploy previews for Pull Requests from forks (like #${prId}) require approval from a maintainer before they can be built${
+    state.latest.error != null ? ` (${state.latest.error})` : ""
+  }.
+
+${details(state)}
+`.trim();
+
+/**
+ * Renders the cancelled build comment
+ */
+export const cancelled = ({ state, tag, target }: CommentArgs): string =>
+  `
+${heading(tag, target)}
+The deploy preview build for the last commit was cancelled before it finished. For more details, check the output of the action run [here](${
+    state.latest.runLink
+  }).
+
+${LINK_NOTE}
+
+${details(state)}
+`.trim();
+
+/**
+ * Renders the skipped build comment
+ */
+export const skipped = ({ state, tag, target }: CommentArgs): string =>
+  `
+${heading(tag, target)}
+The deploy preview build for the last commit was skipped, so no deploy preview was created for it. For more details, check the output of the action run [here](${
+    state.latest.runLink
+  }).
+
+${LINK_NOTE}
+
+${details(state)}
+`.trim();
+
+/**
+ * Renders the deployed but unreachable comment
+ */
+export const unreachable = ({
+  prId,
+  url,
+  state,
+  tag,
+  target,
+}: CommentArgs): string =>
+  `
+${heading(tag, target)}
+A deploy preview was built for this Pull Request (#${prId}), but it couldn't be reached at ${url} after deploying${
+    state.latest.error != null ? ` (\`${state.latest.error}\`)` : ""
+  }. For more details, check the output of the action run [here](${
+    state.latest.runLink
+  }).
+
+${LINK_NOTE}
+
+${details(state)}
+`.trim();
+
 /**
  * Renders the building successful comment
  */
-export const successful = ({ prId, url, state, tag }: CommentArgs): string =>
+export const successful = ({
+  prId,
+  url,
+  state,
+  tag,
+  target,
+}: CommentArgs): string =>
   `
-${COMMENT_TAG(tag)}
-### Deploy preview${tag != null ? ` (\`${tag}\`)` : ""}
+${heading(tag, target)}
 A deploy preview has been created for this Pull Request (#${prId}), which is available at ${url}.
 
 ${LINK_NOTE}
@@ -170,10 +529,15 @@ ${details(state)}
 /**
  * Renders the building in-progress comment
  */
-export const building = ({ prId, url, state, tag }: CommentArgs): string =>
+export const building = ({
+  prId,
+  url,
+  state,
+  tag,
+  target,
+}: CommentArgs): string =>
   `
-${COMMENT_TAG(tag)}
-### Deploy preview${tag != null ? ` (\`${tag}\`)` : ""}
+${heading(tag, target)}
 A deploy preview is being created for this Pull Request (#${prId}), which will be available at ${url} once completed.
 
 ${LINK_NOTE}
@@ -181,6 +545,36 @@ ${LINK_NOTE}
 ${details(state)}
 `.trim();
 
+/**
+ * Renders the comment for a closed or merged PR, whose deploy preview has been removed
+ */
+export const removed = ({ prId, state, tag, target }: CommentArgs): string => {
+  const reason = state.removed ?? "closed";
+  return `
+${heading(tag, target, `Preview removed (${reason})`)}
+This Pull Request (#${prId}) was ${reason}, so its deploy preview has been removed. If it is reopened, a new deploy preview will be created for the next build.
+
+${details(state)}
+`.trim();
+};
+
+/**
+ * Renders the summary of a build check run, which embeds the build state like the
+ * comments do
+ * @param commentState - Current build state of each deploy target
+ */
+export const checkSummary = (commentState: CommentState): string =>
+  `
+${stateTag(commentState)}
+${Object.entries(commentState.targets)
+  .map(([target, state]) =>
+    target !== DEFAULT_TARGET
+      ? `### \`${target}\`\n${details(state)}`
+      : details(state),
+  )
+  .join("\n\n")}
+`.trim();
+
 /**
  * Renders the inner details section of a build comment
  */
@@ -190,14 +584,85 @@ export const details = (state: BuildState): string => `
 ${HEADER_ROW}
 ${SEPARATOR_ROW}
 ${entry(state.latest)}
-
+${trends(state.latest)}${results([state.latest, ...state.previous])}
 <details><summary>Previous builds</summary>
 <p>
 
 ${previous(state.previous)}
 
 </p>
-</details>`;
+</details>${state.archive != null ? `\n\n${archived(state.archive)}` : ""}`;
+
+/**
+ * Renders the trends of a build entry, or nothing if there aren't any
+ * @param buildEntry - Build entry
+ */
+const trends = ({ commitSha, trends: entryTrends = [] }: BuildEntry): string =>
+  entryTrends.length > 0
+    ? `
+**Trends for \`${commitSha}\`**
+${entryTrends
+  .map((trend) => `- vs ${trend.against}: ${delta(trend)}`)
+  .join("\n")}
+`
+    : "";
+
+/**
+ * Renders the duration and size deltas of a trend, like `+12s / +4.1 kB (+2%)`
+ * @param trend - Comparison against an earlier build
+ */
+const delta = ({
+  durationDelta,
+  sizeDelta,
+  sizePercent,
+}: BuildTrend): string => {
+  const parts: string[] = [];
+  if (durationDelta != null) {
+    const sign = durationDelta < 0 ? "-" : "+";
+    const seconds = Math.abs(durationDelta);
+    parts.push(`${sign}${seconds < 60 ? `${seconds}s` : duration(seconds)}`);
+  }
+  if (sizeDelta != null) {
+    const sign = sizeDelta < 0 ? "-" : "+";
+    const percentage =
+      sizePercent != null
+        ? ` (${sizePercent < 0 ? "" : "+"}${sizePercent}%)`
+        : "";
+    parts.push(`${sign}${size(Math.abs(sizeDelta))}${percentage}`);
+  }
+  return parts.join(" / ");
+};
+
+/**
+ * Renders a size in bytes using decimal units, like `4.1 kB`
+ * @param bytes - Size in bytes
+ */
+const size = (bytes: number): string => {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1000 * 1000) return `${(bytes / 1000).toFixed(1)} kB`;
+  return `${(bytes / (1000 * 1000)).toFixed(1)} MB`;
+};
+
+/**
+ * Renders the results attached to each build entry as lists (rather than tables, so
+ * that they can't be mistaken for build entries), or nothing if there aren't any
+ * @param entries - Build entries, newest first
+ */
+const results = (entries: BuildEntry[]): string => {
+  const sections = entries
+    .filter((buildEntry) => (buildEntry.results ?? []).length > 0)
+    .map(
+      ({ commitSha, results: entryResults = [] }) => `
+**Results for \`${commitSha}\`**
+${entryResults
+  .map(
+    ({ name, value, link: resultLink }) =>
+      `- ${name}: ${resultLink != null ? link(value, resultLink) : value}`,
+  )
+  .join("\n")}`,
+    );
+  return sections.length > 0 ? `${sections.join("\n")}\n` : "";
+};
 
 /**
  * Renders a single build entry to Markdown
@@ -211,9 +676,14 @@ export const entry = ({
   buildTime,
   buildDuration,
   runLink,
+  outdated,
+  expired,
+  retired,
 }: BuildEntry): string =>
-  `| ${emoji} | ${status} | ${
-    deployUrl != null ? link("link", deployUrl) : NULL
+  `| ${emoji} | ${status}${outdated ? OUTDATED : ""}${
+    retired ? RETIRED : ""
+  } | ${
+    deployUrl != null ? deployLink(deployUrl, expired || retired) : NULL
   } | ${link(`\`${commitSha}\``, commitLink)} | ${buildTime} | ${
     buildDuration != null ? buildDuration : NULL
   } | ${link("link", runLink)} |
@@ -229,6 +699,17 @@ export const duration = (totalSeconds: number): string => {
   return `${minutes}m ${seconds}s`;
 };
 
+/**
+ * Renders the deploy link of a build entry, striking it through if the deploy preview
+ * has expired or been removed
+ * @param deployUrl - Deploy preview URL
+ * @param expired - Whether the deploy preview is no longer available
+ */
+const deployLink = (deployUrl: string, expired: boolean | Nil): string =>
+  expired
+    ? `${EXPIRED}${link("link", deployUrl)}${EXPIRED}`
+    : link("link", deployUrl);
+
 /**
  * Constructs a link using Markdown syntax
  * @param text - Link text
@@ -238,11 +719,13 @@ const link = (text: string, url: string): string => `[${text}](${url})`;
 
 /**
  * Formats a date object into a markdown string
- * @param dateTime - JavaScript date object
+ * @param jsDateTime - JavaScript date object
+ * @param timeZone - IANA time zone to show the date in, defaulting to New York's
  */
-export const date = (jsDateTime: Date): string => {
-  const timeZone = process.env.TIME_ZONE ?? "America/New_York";
-  const dateTime = DateTime.fromJSDate(jsDateTime).setZone(timeZone);
+export const date = (jsDateTime: Date, timeZone: string | Nil): string => {
+  const dateTime = DateTime.fromJSDate(jsDateTime).setZone(
+    timeZone ?? "America/New_York",
+  );
   return `${dateTime.toFormat("LLL d")} at ${dateTime.toFormat("h:mm a ZZZZ")}`;
 };
 
@@ -258,3 +741,42 @@ ${SEPARATOR_ROW}
 ${previousBuilds.map(entry).join("\n")}
       `.trim()
     : `No previous builds found`;
+
+/**
+ * Renders an archived comment body in a collapsed section
+ * @param archive - Original comment body that couldn't be parsed
+ */
+const archived = (archive: string): string => {
+  // Use a fence longer than any run of backticks in the archived body
+  const longestRun = Math.max(
+    2,
+    ...(archive.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `
+<details><summary>Archived comment</summary>
+<p>
+
+The previous version of this comment couldn't be parsed, so its original contents have been preserved below.
+
+${fence}markdown
+${archive}
+${fence}
+
+</p>
+</details>`.trim();
+};
+
+/**
+ * Built-in comment templates, used unless a custom template file is given
+ */
+export const defaultTemplates: Templates = {
+  building,
+  successful,
+  failed,
+  unreachable,
+  cancelled,
+  skipped,
+  approvalRequired,
+  removed,
+};
@@ -0,0 +1,299 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import * as core from "@actions/core";
+import * as fs from "fs";
+import {
+  ActionsGetWorkflowRunResponseData,
+  ActionsListWorkflowRunsResponseData,
+} from "@octokit/types";
+import {
+  BuildEmoji,
+  BuildEntry,
+  BuildState,
+  BuildStatus,
+  BuildTrend,
+} from "./templates";
+import { numberInput, workspacePath, Inputs } from "./inputs";
+import { getJob } from "./jobs";
+import { PAGE_SIZE } from "./client";
+import { ActionContext, Env, Item, Job, Nil } from "./types";
+
+type WorkflowRun = Item<ActionsListWorkflowRunsResponseData["workflow_runs"]>;
+
+/**
+ * Options controlling how builds are compared against earlier builds
+ */
+export interface TrendOptions {
+  manifest: string | Nil;
+  compareBase: boolean;
+  // Thresholds are percentage increases over the baseline
+  durationThreshold: number;
+  sizeThreshold: number;
+  onRegression: "warn" | "fail";
+}
+
+/**
+ * Earlier build that the current build is compared against
+ */
+export interface Baseline {
+  label: string;
+  durationSeconds: number | Nil;
+  size: number | Nil;
+  // Duration of the current build measured the same way as the baseline's, if it isn't
+  // measured the same way as the current build entry's duration
+  currentDurationSeconds?: number | Nil;
+}
+
+/**
+ * Reads the trend reporting options from the action inputs
+ * @param inputs - Source of the action inputs
+ */
+export function getTrendOptions(inputs: Inputs): TrendOptions {
+  const manifest = inputs.get("size-manifest");
+  const onRegression = inputs.get("threshold-action") || "warn";
+  if (onRegression !== "warn" && onRegression !== "fail")
+    throw new Error(
+      `Unknown threshold action "${onRegression}"; expected either "warn" or "fail"`,
+    );
+  return {
+    manifest: manifest !== "" ? manifest : null,
+    compareBase: inputs.get("compare-base-branch") !== "false",
+    durationThreshold: numberInput(inputs, "duration-threshold", Infinity),
+    sizeThreshold: numberInput(inputs, "size-threshold", Infinity),
+    onRegression,
+  };
+}
+
+/**
+ * Reads the total size (in bytes) of the build artifacts from a manifest file, which is
+ * either a webpack-style stats file (with an `assets` array of `{ name, size }`
+ * objects) or an object mapping each artifact to its size. Returns null (skipping the
+ * size trend) with a warning if the manifest can't be read
+ * @param file - Path to the manifest file, relative to the workspace
+ * @param env - Environment variables of the run
+ */
+export function readManifestSize(file: string, env: Env): number | null {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(workspacePath(file, env), "utf8"));
+  } catch (err) {
+    core.warning(
+      `Unable to read size manifest ${file} (${err.message}); skipping the size trend`,
+    );
+    return null;
+  }
+  if (manifest == null || typeof manifest !== "object") {
+    core.warning(
+      `Size manifest ${file} isn't a JSON object; skipping the size trend`,
+    );
+    return null;
+  }
+
+  const { assets } = manifest as { assets?: { size: number }[] };
+  const sizes = Array.isArray(assets)
+    ? assets.map(({ size }) => size)
+    : Object.values(manifest as Record<string, unknown>);
+  return sizes.reduce<number>(
+    (total, size) => total + (typeof size === "number" ? size : 0),
+    0,
+  );
+}
+
+/**
+ * Gets the time (in seconds) that a job took to reach the step with the given name, or
+ * null if the job doesn't have a step with that name that has started
+ * @param job - Job of a workflow run
+ * @param stepName - Name of the step
+ */
+function timeToStep(job: Job, stepName: string): number | null {
+  const step = job.steps.find(({ name }) => name === stepName);
+  if (step?.started_at == null) return null;
+  return Math.round(
+    (Date.parse(step.started_at) - Date.parse(job.started_at)) / 1000,
+  );
+}
+
+/**
+ * Gets the time that the same job took to reach the same step (the one running the
+ * action) in the latest successful build of the same workflow on the base branch. Since
+ * the base branch only has the job's timing from the API (rather than the
+ * `build-duration` input), it is compared against the time the current job took to
+ * reach the step, instead of the current build entry's duration. Returns null
+ * (skipping the comparison) if either job or step can't be found
+ * @param actionContext - Base action context
+ */
+export async function getBaseBaseline(
+  actionContext: ActionContext,
+): Promise<Baseline | null> {
+  const { octokit, repo, runId, jobName, baseBranch, env } = actionContext;
+  const label = `\`${baseBranch}\``;
+
+  try {
+    const currentJob = await getJob(octokit, repo, runId, jobName, env);
+    // The step running the action is the only one in progress
+    const step = currentJob?.steps.find(
+      ({ status }) => status === "in_progress",
+    );
+    if (currentJob == null || step == null) {
+      core.info(
+        `Not comparing against ${baseBranch}; couldn't find the step running in the current job`,
+      );
+      return null;
+    }
+
+    const { data: run } = await octokit.actions.getWorkflowRun({
+      ...repo,
+      run_id: runId,
+    });
+    const {
+      workflow_id,
+    } = (run as unknown) as ActionsGetWorkflowRunResponseData & {
+      workflow_id: number;
+    };
+    // Listed newest first, so stop at the first page with a successful run
+    const isSuccessful = ({ conclusion }: WorkflowRun): boolean =>
+      conclusion === "success";
+    const runs: WorkflowRun[] = await octokit.paginate(
+      octokit.actions.listWorkflowRuns.endpoint.merge({
+        ...repo,
+        workflow_id,
+        branch: baseBranch,
+        status: "completed",
+        per_page: PAGE_SIZE,
+      }),
+      (response, done) => {
+        const page = (response.data as unknown) as WorkflowRun[];
+        if (page.some(isSuccessful)) done();
+        return page;
+      },
+    );
+    const baseRun = runs.find(isSuccessful);
+    if (baseRun == null) {
+      core.info(`No successful builds found on ${baseBranch} to compare with`);
+      return null;
+    }
+
+    const baseJob = await getJob(
+      octokit,
+      repo,
+      baseRun.id,
+      currentJob.name,
+      env,
+    );
+    const durationSeconds =
+      baseJob != null ? timeToStep(baseJob, step.name) : null;
+    if (durationSeconds == null) {
+      core.info(
+        `Not comparing against ${baseBranch}; its build has no step named "${step.name}"`,
+      );
+      return null;
+    }
+    return {
+      label,
+      durationSeconds,
+      size: null,
+      currentDurationSeconds: timeToStep(currentJob, step.name),
+    };
+  } catch (err) {
+    core.warning(
+      `Unable to find the latest build on ${baseBranch}: ${err.message}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Gets the previous successful build of another commit in the build state as a
+ * baseline, or null if there isn't one
+ * @param state - Existing build state of the current deploy target
+ * @param current - Current build entry
+ */
+function previousBaseline(
+  state: BuildState | Nil,
+  current: BuildEntry,
+): Baseline | null {
+  if (state == null) return null;
+  const previous = [state.latest, ...state.previous].find(
+    (entry) =>
+      entry.commitSha !== current.commitSha &&
+      entry.status === BuildStatus.Success,
+  );
+  if (previous == null) return null;
+  return {
+    label: "previous build",
+    durationSeconds: previous.durationSeconds,
+    size: previous.size,
+  };
+}
+
+/**
+ * Gets the percentage change from a baseline value, or null if it can't be computed
+ * @param delta - Change from the baseline
+ * @param baseline - Baseline value
+ */
+const percent = (delta: number, baseline: number): number | null =>
+  baseline > 0 ? Math.round((delta / baseline) * 1000) / 10 : null;
+
+/**
+ * Compares a build entry against a baseline, returning null if they have nothing in
+ * common to compare
+ * @param current - Current build entry
+ * @param baseline - Earlier build to compare against
+ */
+function compare(current: BuildEntry, baseline: Baseline): BuildTrend | null {
+  const trend: BuildTrend = { against: baseline.label };
+  const durationSeconds =
+    baseline.currentDurationSeconds !== undefined
+      ? baseline.currentDurationSeconds
+      : current.durationSeconds;
+  if (durationSeconds != null && baseline.durationSeconds != null) {
+    trend.durationDelta = durationSeconds - baseline.durationSeconds;
+    trend.durationPercent = percent(
+      trend.durationDelta,
+      baseline.durationSeconds,
+    );
+  }
+  if (current.size != null && baseline.size != null) {
+    trend.sizeDelta = current.size - baseline.size;
+    trend.sizePercent = percent(trend.sizeDelta, baseline.size);
+  }
+  return trend.durationDelta != null || trend.sizeDelta != null ? trend : null;
+}
+
+/**
+ * Compares a successful build entry against the previous successful build in the build
+ * state and the given baselines, returning a new entry with the trends attached. If any
+ * trend goes over one of the thresholds, the entry is marked as regressed (turning its
+ * row yellow)
+ * @param current - Current build entry
+ * @param existing - Existing build state of the current deploy target
+ * @param baselines - Other baselines to compare against (such as the base branch)
+ * @param options - Trend reporting options
+ */
+export function withTrends(
+  current: BuildEntry,
+  existing: BuildState | Nil,
+  baselines: Baseline[],
+  options: TrendOptions,
+): BuildEntry {
+  // Builds that deployed but were unreachable still have meaningful trends
+  const { status } = current;
+  if (status !== BuildStatus.Success && status !== BuildStatus.Unreachable)
+    return current;
+  const trends = [previousBaseline(existing, current), ...baselines]
+    .map((baseline) => (baseline != null ? compare(current, baseline) : null))
+    .filter((trend): trend is BuildTrend => trend != null);
+  if (trends.length === 0) return current;
+
+  const regressed = trends.some(
+    ({ durationPercent, sizePercent }) =>
+      (durationPercent ?? 0) > options.durationThreshold ||
+      (sizePercent ?? 0) > options.sizeThreshold,
+  );
+  return {
+    ...current,
+    trends,
+    ...(regressed && status === BuildStatus.Success
+      ? { emoji: BuildEmoji.Regressed }
+      : {}),
+  };
+}
@@ -0,0 +1,94 @@
+import { PullRequest, Repo, Nil } from "./types";
+import { Inputs } from "./inputs";
+
+/**
+ * Policy for which PRs from forks are trusted to build deploy previews
+ */
+export interface TrustPolicy {
+  associations: string[];
+  label: string | Nil;
+  // Whether to let the job carry on (without a preview) instead of failing the step
+  continueUntrusted: boolean;
+}
+
+/**
+ * Whether the current PR is trusted to build a deploy preview, and why
+ */
+export interface TrustDecision {
+  trusted: boolean;
+  reason: string;
+}
+
+/**
+ * Reads the fork trust policy from the action inputs
+ * @param inputs - Source of the action inputs
+ */
+export function getTrustPolicy(inputs: Inputs): TrustPolicy {
+  const associations = inputs
+    .get("trusted-associations")
+    .split(",")
+    .map((association) => association.trim().toUpperCase())
+    .filter((association) => association.length > 0);
+  const label = inputs.get("trusted-label").trim();
+  return {
+    associations,
+    label: label !== "" ? label : null,
+    continueUntrusted: inputs.get("continue-untrusted") === "true",
+  };
+}
+
+/**
+ * Decides whether the given PR is trusted to build a deploy preview. PRs from the same
+ * repository are always trusted, while PRs from forks are only trusted if their author
+ * (or the commenter, for runs triggered by a comment) has one of the trusted
+ * associations with the repository or if a maintainer has applied the trusted label
+ * @param pr - GitHub API object for the PR
+ * @param repo - GitHub repo for the current CI context
+ * @param policy - Fork trust policy
+ * @param commentAssociation - Association of the commenter that triggered the run, if any
+ */
+export function evaluateTrust(
+  pr: PullRequest,
+  repo: Repo,
+  policy: TrustPolicy,
+  commentAssociation?: string | Nil,
+): TrustDecision {
+  const headRepo = pr.head.repo.full_name;
+  if (headRepo === `${repo.owner}/${repo.repo}`) {
+    return { trusted: true, reason: "PR is from the same repository" };
+  }
+
+  if (commentAssociation != null) {
+    if (policy.associations.includes(commentAssociation)) {
+      return {
+        trusted: true,
+        reason: `Commenter has the trusted association ${commentAssociation}`,
+      };
+    }
+  } else {
+    // The author association isn't included in the response types
+    const { author_association: association } = (pr as unknown) as {
+      author_association: string;
+    };
+    if (policy.associations.includes(association)) {
+      return {
+        trusted: true,
+        reason: `PR author has the trusted association ${association}`,
+      };
+    }
+  }
+
+  const { label } = policy;
+  if (label != null && pr.labels.some((l) => l.name === label)) {
+    return { trusted: true, reason: `PR has the trusted label "${label}"` };
+  }
+
+  const approval =
+    label != null
+      ? `; a maintainer can approve it by adding the "${label}" label`
+      : "";
+  return {
+    trusted: false,
+    reason: `PR is from the external repository ${headRepo}${approval}`,
+  };
+}
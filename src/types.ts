@@ -0,0 +1,94 @@
+import { GitHub } from "@actions/github";
+import { Context } from "@actions/github/lib/context";
+import { Clock } from "./clock";
+import { Inputs } from "./inputs";
+import { Reporter } from "./reporters";
+import { OwnershipPolicy } from "./ownership";
+import { NotifyOptions } from "./notify";
+import { RetentionOptions } from "./retention";
+import { TrendOptions } from "./trends";
+import { Templates } from "./templates";
+import { VerifyOptions } from "./verify";
+import { Http } from "./http";
+import {
+  IssuesListCommentsForRepoResponseData,
+  ReposListCommitsResponseData,
+  ActionsListJobsForWorkflowRunResponseData,
+  PullsGetResponseData,
+  ChecksListForRefResponseData,
+} from "@octokit/types";
+
+export type EventMode =
+  | "pre"
+  | "post"
+  | "failure"
+  | "cancelled"
+  | "skipped"
+  | "closed"
+  | "annotate"
+  | "cleanup";
+export type Item<T> = T extends (infer I)[] ? I : never;
+export type Comment = Item<IssuesListCommentsForRepoResponseData>;
+export type Commit = Item<ReposListCommitsResponseData>;
+export type PullRequest = PullsGetResponseData;
+export type CheckRun = Item<ChecksListForRefResponseData["check_runs"]>;
+export type Job = Item<ActionsListJobsForWorkflowRunResponseData["jobs"]>;
+export type Nil = null | undefined;
+export type Env = Record<string, string | undefined>;
+
+export interface Repo {
+  repo: string;
+  owner: string;
+}
+
+/**
+ * External dependencies of the action, which the tests and the CLI replace to run it
+ * outside of a workflow
+ */
+export interface Dependencies {
+  inputs: Inputs;
+  env: Env;
+  context: Context;
+  createClient(token: string, clock: Clock): GitHub;
+  clock: Clock;
+  http: Http;
+}
+
+/**
+ * Common parameters sent to action states
+ */
+export interface ActionContext {
+  archiveCorrupted: boolean;
+  buildDuration: number | Nil;
+  deployments: boolean;
+  jobName: string | Nil;
+  reporter: Reporter;
+  ownership: OwnershipPolicy;
+  reportFile: string | Nil;
+  reportSummary: boolean;
+  retention: RetentionOptions;
+  trends: TrendOptions;
+  templates: Templates;
+  verify: VerifyOptions;
+  notify: NotifyOptions;
+  staleTimeout: number;
+  stagingUrl: string;
+  teardownUrl: string | Nil;
+  commitUrl: string;
+  shortSha: string;
+  outdated: boolean;
+  octokit: GitHub;
+  clock: Clock;
+  http: Http;
+  env: Env;
+  buildTime: Date;
+  runLink: string;
+  runId: number;
+  baseBranch: string;
+  prId: number;
+  sha: string;
+  headSha: string;
+  repo: Repo;
+  tag: string | Nil;
+  target: string;
+}
@@ -0,0 +1,97 @@
+import { Nil } from "./types";
+
+/**
+ * Values available to the staging URL patterns
+ */
+export interface UrlValues {
+  base: string;
+  sha: string;
+  shortSha: string;
+  pr: number | Nil;
+  branch: string;
+  tag: string | Nil;
+  runId: string;
+}
+
+export const DEFAULT_COMMIT_URL_PATTERN = "{base}/commit/{shortSha}/";
+export const DEFAULT_PR_URL_PATTERN = "{base}/pr/{pr}/";
+export const DEFAULT_TEARDOWN_URL_PATTERN = "{base}/pr/{pr}";
+
+const PLACEHOLDER_REGEX = /\{(\w+)\}/g;
+const PLACEHOLDERS = [
+  "base",
+  "sha",
+  "shortSha",
+  "pr",
+  "branch",
+  "tag",
+  "runId",
+];
+// DNS labels can be at most 63 characters long
+const MAX_SLUG_LENGTH = 63;
+
+/**
+ * Converts text (such as a branch name) into a slug that's safe to use in both URL paths
+ * and subdomains
+ * @param text - Text to slugify
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Gets the value of each placeholder, or null if the placeholder has no value
+ * @param values - Values available to the staging URL patterns
+ */
+function placeholders(values: UrlValues): Record<string, string | null> {
+  return {
+    base: values.base !== "" ? values.base : null,
+    sha: values.sha,
+    shortSha: values.shortSha,
+    pr: values.pr != null ? values.pr.toString() : null,
+    branch: slugify(values.branch),
+    tag: values.tag ?? null,
+    runId: values.runId,
+  };
+}
+
+/**
+ * Checks that a staging URL pattern only uses known placeholders, throwing an Exception
+ * if it doesn't
+ * @param name - Name of the action input the pattern came from
+ * @param pattern - Staging URL pattern
+ */
+export function validatePattern(name: string, pattern: string): void {
+  const used = pattern.match(PLACEHOLDER_REGEX) ?? [];
+  for (const placeholder of used) {
+    if (!PLACEHOLDERS.includes(placeholder.slice(1, -1))) {
+      const expected = PLACEHOLDERS.map((known) => `{${known}}`).join(", ");
+      throw new Error(
+        `Unknown placeholder ${placeholder} in input "${name}"; expected one of ${expected}`,
+      );
+    }
+  }
+}
+
+/**
+ * Expands the placeholders in a staging URL pattern, throwing an Exception if the
+ * pattern uses a placeholder that has no value for the current run (such as `{pr}` when
+ * not running on a PR)
+ * @param pattern - Staging URL pattern
+ * @param values - Values available to the staging URL patterns
+ */
+export function expandPattern(pattern: string, values: UrlValues): string {
+  const available = placeholders(values);
+  return pattern.replace(PLACEHOLDER_REGEX, (placeholder, name: string) => {
+    const value = available[name];
+    if (value == null)
+      throw new Error(
+        `Placeholder ${placeholder} in staging URL pattern ${pattern} has no value for this run`,
+      );
+    return value;
+  });
+}
@@ -0,0 +1,151 @@
+import * as core from "@actions/core";
+import { ActionContext, Nil } from "./types";
+import { numberInput, Inputs } from "./inputs";
+
+/**
+ * Options controlling how deployed previews are verified
+ */
+export interface VerifyOptions {
+  // All durations are in milliseconds
+  timeout: number;
+  interval: number;
+  maxInterval: number;
+  backoff: number;
+  expectedStatus: number;
+  content: string | Nil;
+  contentPath: string | Nil;
+}
+
+/**
+ * Result of probing a single deployed URL
+ */
+export interface ProbeResult {
+  success: boolean;
+  url: string;
+  message: string;
+}
+
+/**
+ * Reads the deploy verification options from the action inputs
+ * @param inputs - Source of the action inputs
+ */
+export function getVerifyOptions(inputs: Inputs): VerifyOptions {
+  const content = inputs.get("verify-content");
+  const contentPath = inputs.get("verify-content-path");
+  return {
+    timeout: numberInput(inputs, "verify-timeout", 300) * 1000,
+    interval: numberInput(inputs, "verify-interval", 10) * 1000,
+    maxInterval: numberInput(inputs, "verify-max-interval", 60) * 1000,
+    backoff: Math.max(1, numberInput(inputs, "verify-backoff", 1.5)),
+    expectedStatus: numberInput(inputs, "verify-status", 200),
+    content: content !== "" ? content : null,
+    contentPath: contentPath !== "" ? contentPath : null,
+  };
+}
+
+/**
+ * Substitutes the commit placeholders in the expected content string
+ * @param content - Expected content from the action inputs
+ * @param actionContext - Base action context
+ */
+function expectedContent(
+  content: string,
+  actionContext: ActionContext,
+): string {
+  const { sha, shortSha } = actionContext;
+  return content.replace(/\{sha\}/g, sha).replace(/\{shortSha\}/g, shortSha);
+}
+
+/**
+ * Makes a single request to the given URL, checking its status code (and content if
+ * configured) against the verify options
+ * @param url - Deployed URL to probe
+ * @param actionContext - Base action context
+ */
+async function probe(
+  url: string,
+  actionContext: ActionContext,
+): Promise<ProbeResult> {
+  const { expectedStatus, content, contentPath } = actionContext.verify;
+  // Resolve the content path relative to the deployed URL rather than the host root
+  const target =
+    contentPath != null
+      ? new URL(contentPath.replace(/^\//, ""), url).toString()
+      : url;
+
+  try {
+    const response = await actionContext.http.get(target);
+    if (response.statusCode !== expectedStatus) {
+      const message = `${target} responded with HTTP ${response.statusCode} (expected ${expectedStatus})`;
+      return { success: false, url, message };
+    }
+
+    if (content != null) {
+      const expected = expectedContent(content, actionContext);
+      if (!response.body.includes(expected)) {
+        const message = `${target} does not contain the expected content "${expected}"`;
+        return { success: false, url, message };
+      }
+    }
+
+    return { success: true, url, message: `${target} is reachable` };
+  } catch (err) {
+    return { success: false, url, message: `${target}: ${err.message}` };
+  }
+}
+
+/**
+ * Polls the given URL until a probe succeeds or the deadline passes, backing off the
+ * poll interval after each failed attempt
+ * @param url - Deployed URL to verify
+ * @param deadline - Timestamp (in milliseconds) after which to stop polling
+ * @param actionContext - Base action context
+ */
+async function waitForUrl(
+  url: string,
+  deadline: number,
+  actionContext: ActionContext,
+): Promise<ProbeResult> {
+  const { verify, clock } = actionContext;
+  const { interval, maxInterval, backoff } = verify;
+  let delay = interval;
+  let attempt = 1;
+  for (;;) {
+    const result = await probe(url, actionContext);
+    if (result.success) {
+      core.info(`Verified ${url} after ${attempt} attempt(s)`);
+      return result;
+    }
+
+    const remaining = deadline - clock.now();
+    if (remaining <= 0) return result;
+    core.debug(`Attempt ${attempt} failed (${result.message}); retrying`);
+    await clock.sleep(Math.min(delay, remaining));
+    delay = Math.min(delay * backoff, maxInterval);
+    attempt += 1;
+  }
+}
+
+/**
+ * Verifies that both the commit URL and the PR staging URL have been deployed, polling
+ * each until it succeeds or the verify timeout passes. Returns the first failed probe,
+ * if any
+ * @param actionContext - Base action context
+ */
+export async function verifyDeploy(
+  actionContext: ActionContext,
+): Promise<ProbeResult> {
+  const { commitUrl, stagingUrl, verify, clock } = actionContext;
+  const deadline = clock.now() + verify.timeout;
+  const urls = commitUrl === stagingUrl ? [commitUrl] : [commitUrl, stagingUrl];
+
+  let result: ProbeResult | Nil = null;
+  for (const url of urls) {
+    result = await waitForUrl(url, deadline, actionContext);
+    if (!result.success) {
+      core.warning(`Unable to verify deploy: ${result.message}`);
+      return result;
+    }
+  }
+  return result as ProbeResult;
+}